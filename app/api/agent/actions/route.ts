@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+import { clearRecordedActions } from "@/lib/agent/action-executor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Empties the action log of the recording backend
+export async function DELETE() {
+  try {
+    clearRecordedActions();
+    return NextResponse.json(chatAgent.getStatus());
+  } catch (error) {
+    console.error("agent: failed to clear action log:", error);
+    return NextResponse.json(
+      { error: "failed to clear action log" },
+      { status: 500 }
+    );
+  }
+}
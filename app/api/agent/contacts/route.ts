@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import {
+  deleteContactPolicy,
+  loadContactPolicies,
+  saveContactPolicy,
+  setDefaultContactMode,
+} from "@/lib/agent/contact-policies";
+import type { ContactMode } from "@/lib/agent/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CONTACT_MODES: ContactMode[] = ["ignore", "draft", "auto"];
+
+export async function GET() {
+  try {
+    return NextResponse.json(await loadContactPolicies());
+  } catch (error) {
+    console.error("contacts: failed to load policies:", error);
+    return NextResponse.json(
+      { error: "failed to load contact policies" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    if (!body?.contact?.trim() || !CONTACT_MODES.includes(body?.mode)) {
+      return NextResponse.json(
+        { error: "contact and mode ('ignore', 'draft' or 'auto') are required" },
+        { status: 400 }
+      );
+    }
+
+    const policy = await saveContactPolicy({
+      id: body.id,
+      contact: body.contact,
+      mode: body.mode,
+      persona: body.persona,
+      dailyReplyCap: Number(body.dailyReplyCap) || 0,
+      typing: body.typing,
+    });
+    return NextResponse.json(policy);
+  } catch (error) {
+    console.error("contacts: failed to save policy:", error);
+    return NextResponse.json(
+      { error: "failed to save contact policy" },
+      { status: 500 }
+    );
+  }
+}
+
+// Changes the mode for contacts without a policy
+export async function PATCH(request: Request) {
+  try {
+    const { defaultMode } = await request.json();
+    if (!CONTACT_MODES.includes(defaultMode)) {
+      return NextResponse.json(
+        { error: "defaultMode must be 'ignore', 'draft' or 'auto'" },
+        { status: 400 }
+      );
+    }
+
+    await setDefaultContactMode(defaultMode);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("contacts: failed to set default mode:", error);
+    return NextResponse.json(
+      { error: "failed to set default contact mode" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "no id provided" }, { status: 400 });
+  }
+
+  try {
+    await deleteContactPolicy(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("contacts: failed to delete policy:", error);
+    return NextResponse.json(
+      { error: "failed to delete contact policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_HISTORY_WINDOW,
+  getHistoryWindow,
+  listConversations,
+} from "@/lib/agent/conversation-store";
+import type { ChatApp } from "@/lib/agent/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CHAT_APPS: ChatApp[] = ["whatsapp", "discord"];
+
+// ?app= lists conversations, adding &chat= returns that chat's history window
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const app = params.get("app") as ChatApp | null;
+  if (app && !CHAT_APPS.includes(app)) {
+    return NextResponse.json({ error: `unknown app ${app}` }, { status: 400 });
+  }
+
+  try {
+    if (!params.has("chat")) {
+      return NextResponse.json({ conversations: listConversations(app ?? undefined) });
+    }
+
+    if (!app) {
+      return NextResponse.json({ error: "app is required with chat" }, { status: 400 });
+    }
+    const limit = Number(params.get("limit")) || DEFAULT_HISTORY_WINDOW;
+    const messages = getHistoryWindow({ app, chat: params.get("chat") || null }, limit);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("conversations: failed to read store:", error);
+    return NextResponse.json(
+      { error: "failed to read conversations" },
+      { status: 500 }
+    );
+  }
+}
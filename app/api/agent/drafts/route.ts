@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+import { listDrafts } from "@/lib/agent/review-queue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ drafts: await listDrafts() });
+  } catch (error) {
+    console.error("drafts: failed to list drafts:", error);
+    return NextResponse.json(
+      { error: "failed to list drafts" },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { id, action: "approve" | "reject", reply? } where reply is the edited text
+export async function POST(request: Request) {
+  try {
+    const { id, action, reply } = await request.json();
+
+    if (!id || (action !== "approve" && action !== "reject")) {
+      return NextResponse.json(
+        { error: "id and action ('approve' or 'reject') are required" },
+        { status: 400 }
+      );
+    }
+
+    const draft = action === "approve"
+      ? await chatAgent.approveDraft(id, reply)
+      : await chatAgent.rejectDraft(id);
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error("drafts: failed to review draft:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "failed to review draft" },
+      { status: 400 }
+    );
+  }
+}
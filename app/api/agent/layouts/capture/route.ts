@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getCursorPosition, getMonitorId } from "@/lib/agent/robot";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_DELAY_MS = 10000;
+
+/**
+ * Waits for the user to hover the target, then records the cursor position.
+ */
+export async function POST(request: Request) {
+  try {
+    const { delayMs = 3000 } = await request.json().catch(() => ({}));
+    await new Promise((resolve) => setTimeout(resolve, Math.min(Number(delayMs) || 0, MAX_DELAY_MS)));
+
+    const position = await getCursorPosition();
+    const monitor = await getMonitorId();
+    console.log("layouts: captured cursor position:", position, "on", monitor);
+    return NextResponse.json({ position, monitor });
+  } catch (error) {
+    console.error("layouts: failed to capture cursor position:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "failed to capture cursor position" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import {
+  deleteLayoutProfile,
+  loadLayoutStore,
+  saveLayoutProfile,
+  setActiveLayout,
+} from "@/lib/agent/layout-profiles";
+import { getMonitorId } from "@/lib/agent/robot";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const store = await loadLayoutStore();
+    const monitor = await getMonitorId().catch(() => null);
+    return NextResponse.json({ ...store, monitor });
+  } catch (error) {
+    console.error("layouts: failed to load profiles:", error);
+    return NextResponse.json(
+      { error: "failed to load layout profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    if (!body?.app || !body?.name || !body?.monitor || !body?.inputBox || !body?.sendButton) {
+      return NextResponse.json(
+        { error: "app, name, monitor, inputBox and sendButton are required" },
+        { status: 400 }
+      );
+    }
+
+    const profile = await saveLayoutProfile(body);
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("layouts: failed to save profile:", error);
+    return NextResponse.json(
+      { error: "failed to save layout profile" },
+      { status: 500 }
+    );
+  }
+}
+
+// Switches the active profile for an app
+export async function PATCH(request: Request) {
+  try {
+    const { app, id } = await request.json();
+    await setActiveLayout(app, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("layouts: failed to activate profile:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "failed to activate layout profile" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "no id provided" }, { status: 400 });
+  }
+
+  try {
+    await deleteLayoutProfile(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("layouts: failed to delete profile:", error);
+    return NextResponse.json(
+      { error: "failed to delete layout profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { listRecentReplies } from "@/lib/agent/conversation-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Recent replies with the memory snippets their prompts used
+export async function GET(request: Request) {
+  const limit = Number(new URL(request.url).searchParams.get("limit")) || undefined;
+
+  try {
+    return NextResponse.json({ replies: listRecentReplies(limit) });
+  } catch (error) {
+    console.error("memory: failed to list replies:", error);
+    return NextResponse.json(
+      { error: "failed to list replies" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_MEMORY_SETTINGS } from "@/lib/agent/app-configs";
+import { AGENT_CONFIG_FILE } from "@/lib/agent/chat-agent";
+import { addNote, deleteNote, getMemoryStats, indexNotes, listNotes } from "@/lib/agent/memory";
+import { readJson } from "@/lib/agent/storage";
+import type { AgentConfig } from "@/lib/agent/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ notes: listNotes(), stats: getMemoryStats() });
+  } catch (error) {
+    console.error("memory: failed to load notes:", error);
+    return NextResponse.json(
+      { error: "failed to load memory" },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { title, text, embeddingModel? }, the model defaults to the agent's.
+// The note is embedded right away so a missing model shows up in the UI.
+export async function POST(request: Request) {
+  let note;
+  let model;
+  try {
+    const { title, text, embeddingModel } = await request.json();
+    if (!text?.trim()) {
+      return NextResponse.json({ error: "text is required" }, { status: 400 });
+    }
+
+    const config = await readJson<AgentConfig | null>(AGENT_CONFIG_FILE, null);
+    model = embeddingModel || config?.memory?.embeddingModel || DEFAULT_MEMORY_SETTINGS.embeddingModel;
+    note = addNote(title?.trim() || "Note", text.trim());
+  } catch (error) {
+    console.error("memory: failed to add note:", error);
+    return NextResponse.json(
+      { error: "failed to add note" },
+      { status: 500 }
+    );
+  }
+
+  try {
+    await indexNotes(model);
+    return NextResponse.json(note);
+  } catch (error) {
+    console.error("memory: failed to index note:", error);
+    return NextResponse.json(
+      { error: `note saved but not indexed with ${model}: ${error instanceof Error ? error.message : "Unknown error"}` },
+      { status: 502 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const id = Number(new URL(request.url).searchParams.get("id"));
+  if (!id) {
+    return NextResponse.json({ error: "no id provided" }, { status: 400 });
+  }
+
+  try {
+    deleteNote(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("memory: failed to delete note:", error);
+    return NextResponse.json(
+      { error: "failed to delete note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Accepts OCR text captured on the client (manual OCR) for message detection
+export async function POST(request: Request) {
+  try {
+    const { text } = await request.json();
+
+    if (!text || typeof text !== "string") {
+      return NextResponse.json({ error: "no text provided" }, { status: 400 });
+    }
+
+    await chatAgent.ingestOcrText(text);
+    return NextResponse.json(chatAgent.getStatus());
+  } catch (error) {
+    console.error("agent: failed to ingest ocr text:", error);
+    return NextResponse.json(
+      { error: "failed to ingest ocr text" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  try {
+    chatAgent.pause();
+    return NextResponse.json(chatAgent.getStatus());
+  } catch (error) {
+    console.error("agent: failed to pause:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "failed to pause agent" },
+      { status: 409 }
+    );
+  }
+}
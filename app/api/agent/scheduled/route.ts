@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+import { listScheduledReplies } from "@/lib/agent/reply-schedule";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ replies: await listScheduledReplies() });
+  } catch (error) {
+    console.error("scheduled: failed to list scheduled replies:", error);
+    return NextResponse.json(
+      { error: "failed to list scheduled replies" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancels a reply that has not been sent yet: DELETE /api/agent/scheduled?id=...
+export async function DELETE(request: Request) {
+  try {
+    const id = new URL(request.url).searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    return NextResponse.json(await chatAgent.cancelScheduledReply(id));
+  } catch (error) {
+    console.error("scheduled: failed to cancel reply:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "failed to cancel reply" },
+      { status: 400 }
+    );
+  }
+}
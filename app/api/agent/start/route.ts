@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+import type { AgentConfig } from "@/lib/agent/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const config = (await request.json()) as AgentConfig;
+
+    if (!config?.app || !config?.aiProvider) {
+      return NextResponse.json(
+        { error: "app and aiProvider are required" },
+        { status: 400 }
+      );
+    }
+
+    await chatAgent.start(config);
+    return NextResponse.json(chatAgent.getStatus());
+  } catch (error) {
+    console.error("agent: failed to start:", error);
+    return NextResponse.json(
+      { error: "failed to start agent" },
+      { status: 500 }
+    );
+  }
+}
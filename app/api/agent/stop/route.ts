@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { chatAgent } from "@/lib/agent/chat-agent";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  try {
+    chatAgent.stop();
+    return NextResponse.json(chatAgent.getStatus());
+  } catch (error) {
+    console.error("agent: failed to stop:", error);
+    return NextResponse.json(
+      { error: "failed to stop agent" },
+      { status: 500 }
+    );
+  }
+}
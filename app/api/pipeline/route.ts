@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { runPipeline } from "@/lib/agent/pipeline";
+import type { PipelineMode } from "@/lib/agent/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Cron entry point scheduled in pipe.json. Pass ?mode=send or ?mode=queue to
+ * override the mode saved with the agent configuration.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const modeParam = searchParams.get("mode");
+
+  if (modeParam && modeParam !== "send" && modeParam !== "queue") {
+    return NextResponse.json(
+      { error: "mode must be 'send' or 'queue'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await runPipeline((modeParam as PipelineMode) || undefined);
+    console.log("pipeline: run finished:", {
+      success: report.success,
+      replies: report.replies.length,
+      durationMs: report.durationMs,
+    });
+    return NextResponse.json(report, { status: report.success ? 200 : 500 });
+  } catch (error) {
+    console.error("pipeline: unexpected error:", error);
+    return NextResponse.json(
+      { error: "failed to run pipeline" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
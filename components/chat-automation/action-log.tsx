@@ -0,0 +1,41 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Trash2 } from "lucide-react";
+import type { RecordedAction, UiActionKind } from "@/lib/agent/types";
+
+const KIND_LABELS: Record<UiActionKind, string> = {
+  open: "open app",
+  move: "move mouse",
+  click: "click",
+  type: "type",
+  press: "press",
+};
+
+export function ActionLog({ actions, onClear }: { actions: RecordedAction[]; onClear: () => Promise<void> }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs p-2 bg-gray-50 rounded max-h-40 overflow-y-auto">
+        {actions.length === 0 ? (
+          <p className="text-gray-400 italic">No actions recorded yet</p>
+        ) : (
+          [...actions].reverse().map((action, idx) => (
+            <div key={idx} className="mb-1 flex gap-2">
+              <span className="text-gray-500">[{new Date(action.time).toLocaleTimeString()}]</span>
+              <span className="font-semibold">{KIND_LABELS[action.kind]}</span>
+              <span className="flex-1 whitespace-pre-wrap break-all">
+                {action.kind === "type" ? `"${action.detail}"` : action.detail}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+      {actions.length > 0 && (
+        <Button size="sm" variant="outline" onClick={onClear}>
+          <Trash2 className="mr-1 h-3 w-3" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
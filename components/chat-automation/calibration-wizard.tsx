@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Crosshair, Loader2, Trash2 } from "lucide-react";
+import { useLayoutProfiles } from "@/hooks/use-layout-profiles";
+import { APP_CONFIGS } from "@/lib/agent/app-configs";
+import type { ChatApp, LayoutTarget, Point } from "@/lib/agent/types";
+
+const CAPTURE_DELAY_SECONDS = 3;
+
+const TARGET_LABELS: Record<LayoutTarget, string> = {
+  inputBox: "Message input box",
+  sendButton: "Send button",
+};
+
+export function CalibrationWizard({ app }: { app: ChatApp }) {
+  const layouts = useLayoutProfiles();
+  const [profileName, setProfileName] = useState("Default");
+  const [targets, setTargets] = useState<Partial<Record<LayoutTarget, Point>>>({});
+  const [capturing, setCapturing] = useState<LayoutTarget | null>(null);
+  const [countdown, setCountdown] = useState(0);
+
+  const appProfiles = layouts.profiles.filter((profile) => profile.app === app);
+
+  const capture = async (target: LayoutTarget) => {
+    setCapturing(target);
+    setCountdown(CAPTURE_DELAY_SECONDS);
+    const timer = setInterval(() => setCountdown((value) => Math.max(value - 1, 0)), 1000);
+
+    try {
+      const position = await layouts.capturePosition(CAPTURE_DELAY_SECONDS * 1000);
+      setTargets((prev) => ({ ...prev, [target]: position }));
+      layouts.setError(null);
+    } catch (error) {
+      console.error("Failed to capture position:", error);
+      layouts.setError(error instanceof Error ? error.message : "Failed to capture position");
+    } finally {
+      clearInterval(timer);
+      setCapturing(null);
+    }
+  };
+
+  const save = async () => {
+    if (!targets.inputBox || !targets.sendButton || !layouts.monitor) return;
+    await layouts.saveProfile({
+      name: profileName.trim() || "Default",
+      app,
+      monitor: layouts.monitor,
+      inputBox: targets.inputBox,
+      sendButton: targets.sendButton,
+    });
+    setTargets({});
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Click capture, then hover the target in {app} within {CAPTURE_DELAY_SECONDS} seconds.
+        Monitor: {layouts.monitor ?? "unknown"}
+      </p>
+
+      <Input
+        value={profileName}
+        onChange={(e) => setProfileName(e.target.value)}
+        placeholder="Profile name"
+      />
+
+      {(Object.keys(TARGET_LABELS) as LayoutTarget[]).map((target) => (
+        <div key={target} className="flex items-center justify-between gap-2 text-xs">
+          <span className="font-medium">{TARGET_LABELS[target]}</span>
+          <span className="text-gray-500 font-mono">
+            {targets[target]
+              ? `${targets[target]!.x}, ${targets[target]!.y}`
+              : `default ${APP_CONFIGS[app][target].x}, ${APP_CONFIGS[app][target].y}`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={capturing !== null}
+            onClick={() => capture(target)}
+          >
+            {capturing === target ? (
+              <>
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                Hover now... {countdown}
+              </>
+            ) : (
+              <>
+                <Crosshair className="mr-1 h-3 w-3" />
+                Capture
+              </>
+            )}
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        size="sm"
+        className="w-full"
+        disabled={!targets.inputBox || !targets.sendButton || !layouts.monitor}
+        onClick={save}
+      >
+        Save Layout Profile
+      </Button>
+
+      {layouts.error && <p className="text-xs text-red-500">{layouts.error}</p>}
+
+      {appProfiles.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold">Saved profiles</h4>
+          {appProfiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-2 text-xs">
+              <span className="flex-1">
+                {profile.name}{" "}
+                <span className="text-gray-500 font-mono">({profile.monitor})</span>
+              </span>
+              {layouts.active[app] === profile.id ? (
+                <span className="text-green-600">Active</span>
+              ) : (
+                <Button variant="ghost" size="sm" onClick={() => layouts.activateProfile(app, profile.id)}>
+                  Use
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => layouts.deleteProfile(profile.id)} title="Delete">
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
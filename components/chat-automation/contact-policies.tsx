@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useContactPolicies } from "@/hooks/use-contact-policies";
+import type { ContactMode, ContactPolicy } from "@/lib/agent/types";
+
+const MODE_LABELS: Record<ContactMode, string> = {
+  ignore: "Ignore",
+  draft: "Draft only",
+  auto: "Auto-reply",
+};
+
+type PolicyInput = Omit<ContactPolicy, "id" | "updatedAt"> & { id?: string };
+
+const EMPTY_POLICY: PolicyInput = { contact: "", mode: "draft", persona: "", dailyReplyCap: 0 };
+
+// An empty field drops the override so the global typing speed applies
+function withTypingSpeed(typing: ContactPolicy["typing"], wpm: string): ContactPolicy["typing"] {
+  const { wordsPerMinute: _, ...rest } = typing ?? {};
+  return Number(wpm) > 0 ? { ...rest, wordsPerMinute: Number(wpm) } : rest;
+}
+
+function ModeSelect({ value, onChange }: { value: ContactMode; onChange: (mode: ContactMode) => void }) {
+  return (
+    <Select value={value} onValueChange={(mode) => onChange(mode as ContactMode)}>
+      <SelectTrigger className="h-8 w-28 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(MODE_LABELS) as ContactMode[]).map((mode) => (
+          <SelectItem key={mode} value={mode}>
+            {MODE_LABELS[mode]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Edits are kept locally and saved when a field loses focus
+function PolicyRow({
+  policy,
+  onSave,
+  onDelete,
+}: {
+  policy: ContactPolicy;
+  onSave: (policy: PolicyInput) => void;
+  onDelete: () => void;
+}) {
+  const [persona, setPersona] = useState(policy.persona ?? "");
+  const [cap, setCap] = useState(String(policy.dailyReplyCap));
+  const [wpm, setWpm] = useState(String(policy.typing?.wordsPerMinute ?? ""));
+
+  const save = (changes: Partial<PolicyInput>) =>
+    onSave({
+      ...policy,
+      persona,
+      dailyReplyCap: Number(cap) || 0,
+      typing: withTypingSpeed(policy.typing, wpm),
+      ...changes,
+    });
+
+  return (
+    <tr className="border-t align-top">
+      <td className="py-1 pr-2 font-medium">{policy.contact}</td>
+      <td className="py-1 pr-2">
+        <ModeSelect value={policy.mode} onChange={(mode) => save({ mode })} />
+      </td>
+      <td className="py-1 pr-2">
+        <Input
+          className="h-8 text-xs"
+          value={persona}
+          placeholder="Default persona"
+          onChange={(e) => setPersona(e.target.value)}
+          onBlur={() => persona !== (policy.persona ?? "") && save({})}
+        />
+      </td>
+      <td className="py-1 pr-2">
+        <Input
+          type="number"
+          min={0}
+          className="h-8 w-16 text-xs"
+          value={cap}
+          onChange={(e) => setCap(e.target.value)}
+          onBlur={() => Number(cap) !== policy.dailyReplyCap && save({})}
+        />
+      </td>
+      <td className="py-1 pr-2">
+        <Input
+          type="number"
+          min={1}
+          className="h-8 w-16 text-xs"
+          value={wpm}
+          placeholder="Default"
+          onChange={(e) => setWpm(e.target.value)}
+          onBlur={() => wpm !== String(policy.typing?.wordsPerMinute ?? "") && save({})}
+        />
+      </td>
+      <td className="py-1">
+        <Button variant="ghost" size="sm" onClick={onDelete} title="Delete">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+export function ContactPolicies() {
+  const contacts = useContactPolicies();
+  const [draft, setDraft] = useState<PolicyInput>(EMPTY_POLICY);
+
+  const add = async () => {
+    if (!draft.contact.trim()) return;
+    await contacts.savePolicy(draft);
+    setDraft(EMPTY_POLICY);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span>Contacts without a policy:</span>
+        <ModeSelect value={contacts.defaultMode} onChange={contacts.setDefaultMode} />
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium">Chat / sender</th>
+            <th className="font-medium">Mode</th>
+            <th className="font-medium">Persona prompt</th>
+            <th className="font-medium">Daily cap</th>
+            <th className="font-medium">Typing WPM</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {contacts.policies.map((policy) => (
+            <PolicyRow
+              key={policy.id}
+              policy={policy}
+              onSave={contacts.savePolicy}
+              onDelete={() => contacts.deletePolicy(policy.id)}
+            />
+          ))}
+          <tr className="border-t">
+            <td className="py-1 pr-2">
+              <Input
+                className="h-8 text-xs"
+                value={draft.contact}
+                placeholder="Chat title or name"
+                onChange={(e) => setDraft({ ...draft, contact: e.target.value })}
+              />
+            </td>
+            <td className="py-1 pr-2">
+              <ModeSelect value={draft.mode} onChange={(mode) => setDraft({ ...draft, mode })} />
+            </td>
+            <td className="py-1 pr-2">
+              <Input
+                className="h-8 text-xs"
+                value={draft.persona}
+                placeholder="Default persona"
+                onChange={(e) => setDraft({ ...draft, persona: e.target.value })}
+              />
+            </td>
+            <td className="py-1 pr-2">
+              <Input
+                type="number"
+                min={0}
+                className="h-8 w-16 text-xs"
+                value={draft.dailyReplyCap}
+                onChange={(e) => setDraft({ ...draft, dailyReplyCap: Number(e.target.value) || 0 })}
+              />
+            </td>
+            <td className="py-1 pr-2">
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-16 text-xs"
+                value={draft.typing?.wordsPerMinute ?? ""}
+                placeholder="Default"
+                onChange={(e) => setDraft({ ...draft, typing: withTypingSpeed(draft.typing, e.target.value) })}
+              />
+            </td>
+            <td className="py-1">
+              <Button variant="ghost" size="sm" onClick={add} disabled={!draft.contact.trim()} title="Add">
+                <Plus className="h-3 w-3" />
+              </Button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {contacts.error && <p className="text-xs text-red-500">{contacts.error}</p>}
+    </div>
+  );
+}
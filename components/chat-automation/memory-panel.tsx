@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { useMemoryNotes, useReplySources } from "@/hooks/use-memory";
+import type { ReplyRecord } from "@/lib/agent/types";
+
+export function MemoryNotes({ embeddingModel }: { embeddingModel: string }) {
+  const memory = useMemoryNotes();
+  const [title, setTitle] = useState("");
+  const [text, setText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const add = async () => {
+    if (!text.trim()) return;
+    setSaving(true);
+    try {
+      await memory.addNote(title, text, embeddingModel);
+      setTitle("");
+      setText("");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Note title" />
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Facts the agent should know, e.g. opening hours or prices"
+        className="min-h-[60px] text-xs"
+      />
+      <Button size="sm" className="w-full" disabled={saving || !text.trim()} onClick={add}>
+        {saving ? "Embedding..." : "Add Note"}
+      </Button>
+
+      {memory.error && <p className="text-xs text-red-500">{memory.error}</p>}
+
+      <p className="text-xs text-gray-500">{memory.chunkCount} indexed snippet(s)</p>
+      {memory.notes.map((note) => (
+        <div key={note.id} className="flex items-start gap-2 text-xs">
+          <span className="flex-1">
+            <span className="font-medium">{note.title}</span>{" "}
+            <span className="text-gray-500">{note.text.substring(0, 60)}{note.text.length > 60 ? "..." : ""}</span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => memory.deleteNote(note.id)} title="Delete">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ReplySourceRow({ reply }: { reply: ReplyRecord }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="text-xs border-b last:border-b-0 py-1">
+      <button className="flex w-full items-start gap-1 text-left" onClick={() => setOpen(!open)}>
+        {open ? <ChevronDown className="h-3 w-3 mt-0.5" /> : <ChevronRight className="h-3 w-3 mt-0.5" />}
+        <span className="flex-1 truncate">{reply.reply}</span>
+        <span className="text-gray-500">
+          {reply.snippets.length} snippet{reply.snippets.length === 1 ? "" : "s"}
+        </span>
+      </button>
+      {open && (
+        <div className="ml-4 mt-1 space-y-1">
+          <p className="text-gray-500">
+            {reply.chat} · {reply.status} · {new Date(reply.createdAt).toLocaleTimeString()}
+          </p>
+          {reply.message && <p className="italic">&ldquo;{reply.message}&rdquo;</p>}
+          {reply.snippets.length === 0 ? (
+            <p className="text-gray-400 italic">No memory used</p>
+          ) : (
+            reply.snippets.map((snippet, idx) => (
+              <div key={idx} className="rounded bg-gray-50 p-1">
+                <span className="text-gray-500">
+                  [{snippet.source === "note" ? "note" : "message"}: {snippet.label}, {snippet.score.toFixed(2)}]
+                </span>{" "}
+                {snippet.text}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ReplySources() {
+  const { replies, error } = useReplySources();
+
+  return (
+    <div className="p-2 bg-gray-50 rounded max-h-60 overflow-y-auto">
+      {replies.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">No replies yet</p>
+      ) : (
+        replies.map((reply) => <ReplySourceRow key={reply.id} reply={reply} />)
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X } from "lucide-react";
+import { useReviewQueue } from "@/hooks/use-review-queue";
+import type { DraftStatus, QueuedReply } from "@/lib/agent/types";
+
+const RECENT_LIMIT = 5;
+
+const STATUS_COLORS: Record<DraftStatus, string> = {
+  pending: "text-yellow-600",
+  sent: "text-green-600",
+  rejected: "text-gray-500",
+  expired: "text-gray-500",
+  failed: "text-red-500",
+};
+
+function DraftCard({
+  draft,
+  onApprove,
+  onReject,
+}: {
+  draft: QueuedReply;
+  onApprove: (reply: string) => Promise<void>;
+  onReject: () => Promise<void>;
+}) {
+  const [reply, setReply] = useState(draft.reply);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-2 text-xs">
+      <div className="flex justify-between text-gray-500">
+        <span>{draft.contact ? `${draft.contact} · ` : ""}{draft.app} · {draft.model}</span>
+        {draft.expiresAt && (
+          <span>expires {new Date(draft.expiresAt).toLocaleTimeString()}</span>
+        )}
+      </div>
+      <p className="whitespace-pre-wrap rounded bg-gray-50 p-2">{draft.message}</p>
+      <Textarea
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        className="min-h-[60px] text-xs"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1"
+          disabled={busy || !reply.trim()}
+          onClick={() => run(() => onApprove(reply))}
+        >
+          <Check className="mr-1 h-3 w-3" />
+          {reply === draft.reply ? "Approve" : "Send Edited"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={busy}
+          onClick={() => run(onReject)}
+        >
+          <X className="mr-1 h-3 w-3" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ReviewQueue() {
+  const queue = useReviewQueue();
+  const recent = queue.drafts
+    .filter((draft) => draft.status !== "pending")
+    .slice(-RECENT_LIMIT)
+    .reverse();
+
+  return (
+    <div className="space-y-2">
+      {queue.pending.length === 0 ? (
+        <p className="text-xs text-gray-500">No replies waiting for review</p>
+      ) : (
+        queue.pending.map((draft) => (
+          <DraftCard
+            key={draft.id}
+            draft={draft}
+            onApprove={(reply) => queue.approve(draft.id, reply === draft.reply ? undefined : reply)}
+            onReject={() => queue.reject(draft.id)}
+          />
+        ))
+      )}
+
+      {queue.error && <p className="text-xs text-red-500">{queue.error}</p>}
+
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold">Recently reviewed</h4>
+          {recent.map((draft) => (
+            <div key={draft.id} className="flex gap-2 text-xs">
+              <span className={STATUS_COLORS[draft.status]}>{draft.status}</span>
+              <span className="flex-1 truncate text-gray-600" title={draft.error ?? draft.reply}>
+                {draft.reply}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
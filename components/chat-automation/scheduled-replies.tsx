@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import { useScheduledReplies } from "@/hooks/use-scheduled-replies";
+import type { ScheduledReply, ScheduledReplyStatus } from "@/lib/agent/types";
+
+const RECENT_LIMIT = 5;
+
+const STATUS_COLORS: Record<ScheduledReplyStatus, string> = {
+  scheduled: "text-yellow-600",
+  sent: "text-green-600",
+  cancelled: "text-gray-500",
+  merged: "text-gray-500",
+  failed: "text-red-500",
+};
+
+function ScheduledCard({ reply, onCancel }: { reply: ScheduledReply; onCancel: () => Promise<void> }) {
+  const [busy, setBusy] = useState(false);
+
+  const cancel = async () => {
+    setBusy(true);
+    try {
+      await onCancel();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-2 text-xs">
+      <div className="flex justify-between text-gray-500">
+        <span>{reply.contact ?? reply.chat ?? reply.app} · {reply.model}</span>
+        <span>sends {new Date(reply.sendAt).toLocaleString()}</span>
+      </div>
+      {reply.holdReason && <p className="text-yellow-600">held: {reply.holdReason}</p>}
+      <div className="space-y-1 rounded bg-gray-50 p-2">
+        {reply.messages.map((message) => (
+          <p key={message.id} className="whitespace-pre-wrap">{message.text}</p>
+        ))}
+      </div>
+      <p className="whitespace-pre-wrap">{reply.reply}</p>
+      <Button size="sm" variant="outline" className="w-full" disabled={busy} onClick={cancel}>
+        <X className="mr-1 h-3 w-3" />
+        Cancel
+      </Button>
+    </div>
+  );
+}
+
+export function ScheduledReplies() {
+  const schedule = useScheduledReplies();
+  const recent = schedule.replies
+    .filter((reply) => reply.status !== "scheduled")
+    .slice(-RECENT_LIMIT)
+    .reverse();
+
+  return (
+    <div className="space-y-2">
+      {schedule.scheduled.length === 0 ? (
+        <p className="text-xs text-gray-500">No replies waiting to be sent</p>
+      ) : (
+        schedule.scheduled.map((reply) => (
+          <ScheduledCard key={reply.id} reply={reply} onCancel={() => schedule.cancel(reply.id)} />
+        ))
+      )}
+
+      {schedule.error && <p className="text-xs text-red-500">{schedule.error}</p>}
+
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="text-xs font-semibold">Recently finished</h4>
+          {recent.map((reply) => (
+            <div key={reply.id} className="flex gap-2 text-xs">
+              <span className={STATUS_COLORS[reply.status]}>{reply.status}</span>
+              <span className="flex-1 truncate text-gray-600" title={reply.error ?? reply.reply}>
+                {reply.reply}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
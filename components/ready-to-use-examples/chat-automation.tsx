@@ -1,58 +1,130 @@
 "use client";
 
 import React, { useState, useRef, useEffect } from "react";
-import { pipe } from "@screenpipe/browser";
 import { Button } from "@/components/ui/button";
 import { Loader2, MessageSquare, CheckCircle, AlertCircle, Minimize, Maximize, Settings } from "lucide-react";
 import { LastOcrImage } from "./last-ocr-image";
+import { ActionLog } from "@/components/chat-automation/action-log";
+import { CalibrationWizard } from "@/components/chat-automation/calibration-wizard";
+import { ContactPolicies } from "@/components/chat-automation/contact-policies";
+import { MemoryNotes, ReplySources } from "@/components/chat-automation/memory-panel";
+import { ReviewQueue } from "@/components/chat-automation/review-queue";
+import { ScheduledReplies } from "@/components/chat-automation/scheduled-replies";
 import { useOllama } from "@/hooks/use-ollama";
 import { useNebius } from "@/hooks/use-nebius";
 import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useChatAgent } from "@/hooks/use-chat-agent";
+import { useSettings } from "@/lib/hooks/use-settings";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  APP_CONFIGS,
+  DEFAULT_AUDIO_SETTINGS,
+  DEFAULT_BURST_SETTINGS,
+  DEFAULT_FAILOVER_POLICY,
+  DEFAULT_MEMORY_SETTINGS,
+  DEFAULT_PACING_SETTINGS,
+  DEFAULT_PRESENCE_SETTINGS,
+  DEFAULT_REVIEW_POLICY,
+  DEFAULT_TYPING_SETTINGS,
+} from "@/lib/agent/app-configs";
+import type {
+  ActionBackend,
+  AiProvider,
+  AudioSettings,
+  BurstSettings,
+  CaptureFilter,
+  ChatApp,
+  FailoverPolicy,
+  FrameSource,
+  MemorySettings,
+  MonitorState,
+  PacingSettings,
+  PipelineMode,
+  PresenceSettings,
+  ReplyMode,
+  ReviewPolicy,
+  TimeWindow,
+  TypingSettings,
+} from "@/lib/agent/types";
 
-// App coordinates configuration
-const APP_CONFIGS = {
-  whatsapp: {
-    inputBox: { x: 650, y: 680 },
-    sendButton: { x: 720, y: 680 },
-  },
-  discord: {
-    inputBox: { x: 600, y: 700 },
-    sendButton: { x: 670, y: 700 },
-  },
+const STATE_LABELS: Record<MonitorState, string> = {
+  idle: "Inactive",
+  starting: "Starting",
+  polling: "Watching chat",
+  generating: "Generating reply",
+  waiting: "Waiting for idle",
+  sending: "Sending reply",
+  paused: "Paused",
+  error: "Error",
 };
 
-// Chat Message interface
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: number;
+const STATE_COLORS: Record<MonitorState, string> = {
+  idle: "text-gray-500",
+  starting: "text-yellow-600",
+  polling: "text-green-600",
+  generating: "text-blue-600",
+  waiting: "text-yellow-600",
+  sending: "text-blue-600",
+  paused: "text-yellow-600",
+  error: "text-red-500",
+};
+
+const ACTION_BACKENDS: { id: ActionBackend; label: string }[] = [
+  { id: "pixel", label: "Screenpipe" },
+  { id: "robotjs", label: "robotjs" },
+  { id: "recording", label: "Dry Run" },
+  { id: "fake", label: "Fake" },
+];
+
+const DEFAULT_ACTIVE_HOURS: TimeWindow = { start: "09:00", end: "21:00" };
+const DEFAULT_QUIET_PERIOD: TimeWindow = { start: "22:00", end: "07:00" };
+
+function TimeWindowInput({ value, onChange }: { value: TimeWindow; onChange: (value: TimeWindow) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      <Input type="time" className="h-8 w-28" value={value.start} onChange={(e) => onChange({ ...value, start: e.target.value })} />
+      <span>-</span>
+      <Input type="time" className="h-8 w-28" value={value.end} onChange={(e) => onChange({ ...value, end: e.target.value })} />
+    </div>
+  );
 }
 
 const ChatAutomation: React.FC = () => {
-  const [selectedApp, setSelectedApp] = useState<"whatsapp" | "discord">("whatsapp");
-  const [isMonitoring, setIsMonitoring] = useState(false);
-  const [lastMessage, setLastMessage] = useState("");
-  const [lastOcrText, setLastOcrText] = useState("");
-  const [logs, setLogs] = useState<{ time: string; message: string }[]>([]);
-  const messageHistory = useRef<string[]>([]);
-  const monitoringTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [selectedApp, setSelectedApp] = useLocalStorage<ChatApp>("selectedApp", "whatsapp");
+  const agent = useChatAgent();
+  const { isMonitoring, state, stateHistory, lastMessage, logs } = agent.status;
 
   // Health status state
   const [healthStatus, setHealthStatus] = useState<"healthy" | "error" | "loading">("loading");
   const healthCheckTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   // AI provider and minimization settings
-  const [aiProvider, setAiProvider] = useLocalStorage<"ollama" | "nebius">("aiProvider", "ollama");
+  const [aiProvider, setAiProvider] = useLocalStorage<AiProvider>("aiProvider", "ollama");
+  const [aiPresetId, setAiPresetId] = useLocalStorage<string>("aiPresetId", "");
   const [nebiusApiKey, setNebiusApiKey] = useLocalStorage<string>("nebiusApiKey", "");
   const [ollamaModel, setOllamaModel] = useLocalStorage<string>("ollamaModel", "qwen2.5");
   const [nebiusModel, setNebiusModel] = useLocalStorage<string>("nebiusModel", "meta-llama/Meta-Llama-3.1-70B-Instruct");
+  const [selfName, setSelfName] = useLocalStorage<string>("selfName", "");
+  const [captureFilters, setCaptureFilters] = useLocalStorage<Partial<Record<ChatApp, Partial<CaptureFilter>>>>("captureFilters", {});
+  const [pipelineMode, setPipelineMode] = useLocalStorage<PipelineMode>("pipelineMode", "queue");
+  const [replyMode, setReplyMode] = useLocalStorage<ReplyMode>("replyMode", "auto");
+  const [reviewPolicy, setReviewPolicy] = useLocalStorage<ReviewPolicy>("reviewPolicy", DEFAULT_REVIEW_POLICY);
+  const [memorySettings, setMemorySettings] = useLocalStorage<MemorySettings>("memorySettings", DEFAULT_MEMORY_SETTINGS);
+  const [failoverPolicy, setFailoverPolicy] = useLocalStorage<FailoverPolicy>("failoverPolicy", DEFAULT_FAILOVER_POLICY);
+  const [typingSettings, setTypingSettings] = useLocalStorage<TypingSettings>("typingSettings", DEFAULT_TYPING_SETTINGS);
+  const [pacingSettings, setPacingSettings] = useLocalStorage<PacingSettings>("pacingSettings", DEFAULT_PACING_SETTINGS);
+  const [actionBackend, setActionBackend] = useLocalStorage<ActionBackend>("actionBackend", "pixel");
+  const [frameSource, setFrameSource] = useLocalStorage<FrameSource>("frameSource", "stream");
+  const [audioSettings, setAudioSettings] = useLocalStorage<AudioSettings>("audioSettings", DEFAULT_AUDIO_SETTINGS);
+  const [presenceSettings, setPresenceSettings] = useLocalStorage<PresenceSettings>("presenceSettings", DEFAULT_PRESENCE_SETTINGS);
+  const [burstSettings, setBurstSettings] = useLocalStorage<BurstSettings>("burstSettings", DEFAULT_BURST_SETTINGS);
   const [isMinimized, setIsMinimized] = useLocalStorage<boolean>("chatAutoMinimized", false);
   const [isConfiguring, setIsConfiguring] = useLocalStorage<boolean>("isConfiguring", true);
 
-  // Initialize AI hooks
+  // AI hooks are only used to list models, generation happens in the agent
+  const { settings: screenpipeSettings } = useSettings();
+  const aiPresets = screenpipeSettings?.aiPresets ?? [];
   const ollama = useOllama({ model: ollamaModel });
   const nebius = useNebius({ 
     model: nebiusModel, 
@@ -72,244 +144,51 @@ const ChatAutomation: React.FC = () => {
     }
   }, [aiProvider]);
 
-  const addLog = (message: string) => {
-    const timeString = new Date().toLocaleTimeString();
-    console.log(`[${timeString}] ${message}`);
-    setLogs((prevLogs) => {
-      const newLogs = [...prevLogs, { time: timeString, message }];
-      return newLogs.slice(-10); // Keep only last 10 logs
+  const captureFilter = captureFilters[selectedApp] ?? {};
+
+  // Fallbacks are tried in the order they were switched on
+  const toggleFallback = (provider: AiProvider) => {
+    const fallbacks = failoverPolicy.fallbacks.includes(provider)
+      ? failoverPolicy.fallbacks.filter((p) => p !== provider)
+      : [...failoverPolicy.fallbacks, provider];
+    setFailoverPolicy({ ...failoverPolicy, fallbacks });
+  };
+
+  const updateCaptureFilter = (changes: Partial<CaptureFilter>) => {
+    setCaptureFilters({
+      ...captureFilters,
+      [selectedApp]: { ...captureFilter, ...changes },
     });
   };
 
   const toggleMonitoring = () => {
     console.log("toggleMonitoring called, current state:", isMonitoring);
     if (isMonitoring) {
-      stopMonitoring();
+      agent.stop();
     } else {
-      startMonitoring();
-    }
-  };
-
-  const startMonitoring =async() => {
-    console.log("startMonitoring called for app:", selectedApp);
-    addLog(`Starting monitoring for ${selectedApp} in 10 seconds...`);
-    setIsMonitoring(true);
-
-    // Wait 10 seconds before starting monitoring
-    console.log("Setting timeout for 10 seconds before monitoring begins");
-    await pipe.operator.openApplication("Whatsapp")
-    monitoringTimerRef.current = setTimeout(async() => {
-      console.log("10-second timeout completed, starting actual monitoring");
-      addLog("Now beginning chat monitoring");
-      monitorChat();
-    }, 1000);
-  };
-
-  const stopMonitoring = () => {
-    console.log("stopMonitoring called");
-    setIsMonitoring(false);
-    if (monitoringTimerRef.current) {
-      console.log("Clearing monitoring timeout/interval");
-      clearTimeout(monitoringTimerRef.current);
-    }
-    addLog(`Stopped monitoring ${selectedApp}`);
-  };
-
-  const detectNewMessages = (text: string) => {
-    console.log("detectNewMessages called with text length:", text?.length);
-    if (!text || text === lastOcrText) {
-      console.log("Text unchanged or empty, skipping detection");
-      return;
-    }
-
-    setLastOcrText(text);
-
-    // Extract the last paragraph as the message
-    const messageBlocks = text.split(/\n{2,}/);
-    console.log("Split message blocks, count:", messageBlocks.length);
-    const lastBlock = messageBlocks[messageBlocks.length - 1].trim();
-
-    console.log("Last message block:", lastBlock);
-    console.log("Is new message?", lastBlock !== lastMessage);
-    console.log("Already in history?", messageHistory.current.includes(lastBlock));
-
-    if (lastBlock && lastBlock !== lastMessage && !messageHistory.current.includes(lastBlock)) {
-      console.log("New message detected, processing response");
-      setLastMessage(lastBlock);
-      messageHistory.current.push(lastBlock);
-      
-      // Add to chat history
-      const newMessage: ChatMessage = {
-        role: 'user',
-        content: lastBlock,
-        timestamp: Date.now()
-      };
-      
-      setChatHistory(prev => [...prev, newMessage]);
-      addLog(`New message: "${lastBlock.substring(0, 30)}${lastBlock.length > 30 ? "..." : ""}"`);
-      generateAndSendResponse(lastBlock);
-    } else {
-      console.log("Message ignored - either empty, duplicate, or already processed");
-    }
-  };
-
-  const generateAndSendResponse = async (message: string) => {
-    console.log("generateAndSendResponse called for message:", message);
-    try {
-      addLog("Processing message for response");
-
-      // Create OCR context
-      const ocrContext = {
-        text: lastOcrText,
-        confidence: 0.9
-      };
-
-      // Generate response with AI
-      let response = "";
-      if (aiProvider === "ollama") {
-        if (ollama.isProcessing) {
-          response = "I'm still thinking about your last message. I'll respond in a moment.";
-        } else {
-          addLog("Generating response with Ollama");
-          response = await ollama.generateChatResponse(message, chatHistory, ocrContext);
-        }
-      } else {
-        if (nebius.isProcessing || !nebiusApiKey) {
-          response = "Let me think about this for a moment.";
-        } else {
-          addLog("Generating response with Nebius");
-          response = await nebius.generateChatResponse(message, chatHistory, ocrContext);
-        }
-      }
-
-      addLog(`Response: "${response.substring(0, 30)}${response.length > 30 ? "..." : ""}"`);
-
-      // Add response to chat history
-      const newMessage: ChatMessage = {
-        role: 'assistant',
-        content: response,
-        timestamp: Date.now()
-      };
-      
-      setChatHistory(prev => [...prev, newMessage]);
-
-      // Send the response if still monitoring
-      if (isMonitoring) {
-        console.log("Still monitoring, sending response");
-        await sendResponse(response);
-        messageHistory.current.push(`AI: ${response}`);
-      } else {
-        console.log("Monitoring stopped, not sending response");
-      }
-    } catch (err) {
-      console.error("Error in generateAndSendResponse:", err);
-      addLog(`Error: ${err instanceof Error ? err.message : "Unknown error"}`);
-    }
-  };
-
-  const sendResponse = async (text: string) => {
-    console.log("sendResponse called with text:", text);
-    try {
-      const config = APP_CONFIGS[selectedApp];
-      addLog(`Sending response to ${selectedApp}`);
-
-      // Move to input box and click
-      console.log("Moving mouse to input box:", config.inputBox);
-      await pipe.operator.pixel.moveMouse(config.inputBox.x, config.inputBox.y);
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      console.log("Clicking input box");
-      await pipe.operator.pixel.click("left");
-
-      // Triple click to select all text
-      console.log("Triple-clicking to select all text");
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      for (let i = 0; i < 3; i++) {
-        await pipe.operator.pixel.click("left");
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Type response
-      console.log("Starting to type response");
-      addLog("Typing response");
-      const chunks = text.match(/.{1,15}|.+/g) || [];
-      for (const chunk of chunks) {
-        console.log("Typing chunk:", chunk);
-        await pipe.operator.pixel.type(chunk);
-        await new Promise((resolve) => setTimeout(resolve, 150));
-      }
-
-      // Click send button
-      console.log("Moving mouse to send button:", config.sendButton);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      await pipe.operator.pixel.moveMouse(config.sendButton.x, config.sendButton.y);
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      console.log("Clicking send button");
-      await pipe.operator.pixel.click("left");
-
-      console.log("Response sent successfully");
-      addLog("Response sent successfully");
-    } catch (err) {
-      console.error("Error in sendResponse:", err);
-      addLog(`Error sending: ${err instanceof Error ? err.message : "Unknown error"}`);
-    }
-  };
-
-  const monitorChat = async () => {
-    console.log("monitorChat called, isMonitoring:", isMonitoring);
-    if (!isMonitoring) {
-      console.log("Monitoring is off, exiting monitorChat");
-      return;
-    }
-
-    console.log("Getting OCR data...");
-    addLog("Getting OCR data...");
-
-    try {
-      // Get OCR data
-      console.log("Calling pipe.queryScreenpipe for OCR data");
-      const result = await pipe.queryScreenpipe({
-        contentType: "ocr",
-        limit: 1,
+      agent.start({
+        app: selectedApp,
+        aiProvider,
+        ollamaModel,
+        nebiusModel,
+        nebiusApiKey,
+        aiPresetId: aiPresetId || undefined,
+        pipelineMode,
+        selfName,
+        captureFilter,
+        replyMode,
+        reviewPolicy,
+        memory: memorySettings,
+        failover: failoverPolicy,
+        typing: typingSettings,
+        pacing: pacingSettings,
+        burst: burstSettings,
+        actionBackend,
+        frameSource,
+        audio: audioSettings,
+        presence: presenceSettings,
       });
-      console.log("OCR API response received:", result);
-
-      if (result?.data?.length > 0) {
-        console.log("OCR data found, items:", result.data.length);
-        const text = result.data[0].content?.text;
-        if (text) {
-          console.log("OCR text found, length:", text.length);
-          addLog(`OCR text captured (${text.length} chars)`);
-          detectNewMessages(text);
-        } else {
-          console.log("No text content in OCR data");
-          addLog("No text content in OCR data");
-        }
-      } else {
-        console.log("No OCR data available in response");
-        addLog("No OCR data available");
-      }
-    } catch (err) {
-      console.error("Error in OCR processing:", err);
-      addLog(`OCR error: ${err instanceof Error ? err.message : "Unknown error"}`);
     }
-   
-    await pipe.operator.pixel.moveMouse(720, 800)
-    await pipe.operator.pixel.click("left")
-    await pipe.operator.pixel.type("hello world")
-    await pipe.operator.pixel.press("enter")
-    await pipe.operator.pixel.press("enter")
-    console.log("Setting up next monitoring cycle in 5 seconds");
-    monitoringTimerRef.current = setTimeout(() => {
-      console.log("5-second timeout completed, checking if monitoring should continue");
-      if (isMonitoring) {
-        console.log("Monitoring is still on, continuing to next cycle");
-        monitorChat();
-      } else {
-        console.log("Monitoring was turned off during wait, stopping cycle");
-      }
-    }, 5000);
   };
 
   const checkHealthStatus = async () => {
@@ -351,16 +230,6 @@ const ChatAutomation: React.FC = () => {
     };
   }, []);
 
-  useEffect(() => {
-    console.log("Component mounted, setting up cleanup for monitoring timer");
-    return () => {
-      console.log("Component unmounting, cleaning up monitoring timer");
-      if (monitoringTimerRef.current) {
-        clearTimeout(monitoringTimerRef.current);
-      }
-    };
-  }, []);
-
   // Render minimized UI
   if (isMinimized && !isConfiguring) {
     return (
@@ -369,7 +238,7 @@ const ChatAutomation: React.FC = () => {
         <div className="flex-1">
           <div className="text-sm font-medium">Chat Automation</div>
           <div className="text-xs text-gray-500">
-            {isMonitoring ? 'Active - ' + selectedApp : 'Inactive'}
+            {isMonitoring ? `${STATE_LABELS[state]} - ${selectedApp}` : STATE_LABELS[state]}
           </div>
         </div>
         {isMonitoring && (
@@ -452,6 +321,13 @@ const ChatAutomation: React.FC = () => {
               >
                 Nebius
               </Button>
+              <Button
+                variant={aiProvider === "preset" ? "default" : "outline"}
+                onClick={() => setAiProvider("preset")}
+                size="sm"
+              >
+                AI Preset
+              </Button>
             </div>
           </div>
 
@@ -472,7 +348,21 @@ const ChatAutomation: React.FC = () => {
 
           <div>
             <h3 className="text-sm font-semibold mb-2">Select Model</h3>
-            {aiProvider === "ollama" ? (
+            {aiProvider === "preset" ? (
+              <Select value={aiPresetId || "default"} onValueChange={(id) => setAiPresetId(id === "default" ? "" : id)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select Preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default preset</SelectItem>
+                  {aiPresets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.id} ({preset.model})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : aiProvider === "ollama" ? (
               <Select value={ollamaModel} onValueChange={setOllamaModel}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select Model" />
@@ -523,6 +413,537 @@ const ChatAutomation: React.FC = () => {
             )}
           </div>
 
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Failover</h3>
+            <div className="flex items-center gap-2 text-xs">
+              <span>Then try:</span>
+              {(["ollama", "nebius", "preset"] as AiProvider[])
+                .filter((provider) => provider !== aiProvider)
+                .map((provider) => (
+                  <Button
+                    key={provider}
+                    variant={failoverPolicy.fallbacks.includes(provider) ? "default" : "outline"}
+                    onClick={() => toggleFallback(provider)}
+                    size="sm"
+                  >
+                    {provider === "ollama" ? "Ollama" : provider === "nebius" ? "Nebius" : "AI Preset"}
+                  </Button>
+                ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+              <label className="space-y-1">
+                <span>Retries</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={failoverPolicy.maxRetries}
+                  onChange={(e) => setFailoverPolicy({ ...failoverPolicy, maxRetries: Math.max(Number(e.target.value) || 0, 0) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Timeout (s)</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={failoverPolicy.timeoutSeconds}
+                  onChange={(e) => setFailoverPolicy({ ...failoverPolicy, timeoutSeconds: Math.max(Number(e.target.value) || 1, 1) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Backoff (s)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={failoverPolicy.backoffSeconds}
+                  onChange={(e) => setFailoverPolicy({ ...failoverPolicy, backoffSeconds: Math.max(Number(e.target.value) || 0, 0) })}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Fallbacks use the model last selected for them. When every provider fails nothing is sent
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Typing</h3>
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              <label className="space-y-1">
+                <span>Words per minute</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={typingSettings.wordsPerMinute}
+                  onChange={(e) => setTypingSettings({ ...typingSettings, wordsPerMinute: Math.max(Number(e.target.value) || 1, 1) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Punctuation pause (ms)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={typingSettings.punctuationPauseMs}
+                  onChange={(e) => setTypingSettings({ ...typingSettings, punctuationPauseMs: Math.max(Number(e.target.value) || 0, 0) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Typos (%)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(typingSettings.typoRate * 100)}
+                  onChange={(e) =>
+                    setTypingSettings({ ...typingSettings, typoRate: Math.min(Math.max(Number(e.target.value) || 0, 0), 100) / 100 })
+                  }
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Mistyped letters are corrected with backspace. Contact policies can set their own speed
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Pacing</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={pacingSettings.enabled ? "default" : "outline"}
+                onClick={() => setPacingSettings({ ...pacingSettings, enabled: true })}
+                size="sm"
+              >
+                On
+              </Button>
+              <Button
+                variant={!pacingSettings.enabled ? "default" : "outline"}
+                onClick={() => setPacingSettings({ ...pacingSettings, enabled: false })}
+                size="sm"
+              >
+                Off
+              </Button>
+            </div>
+            {pacingSettings.enabled && (
+              <div className="space-y-2 mt-2 text-xs">
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="space-y-1">
+                    <span>Read delay (s)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={pacingSettings.readDelaySeconds}
+                      onChange={(e) => setPacingSettings({ ...pacingSettings, readDelaySeconds: Math.max(Number(e.target.value) || 0, 0) })}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span>Per character (ms)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={pacingSettings.readMsPerChar}
+                      onChange={(e) => setPacingSettings({ ...pacingSettings, readMsPerChar: Math.max(Number(e.target.value) || 0, 0) })}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span>Max delay (s)</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={pacingSettings.maxReadDelaySeconds}
+                      onChange={(e) => setPacingSettings({ ...pacingSettings, maxReadDelaySeconds: Math.max(Number(e.target.value) || 0, 0) })}
+                    />
+                  </label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={pacingSettings.activeHours ? "default" : "outline"}
+                    onClick={() => setPacingSettings({ ...pacingSettings, activeHours: pacingSettings.activeHours ?? DEFAULT_ACTIVE_HOURS })}
+                    size="sm"
+                  >
+                    Active hours
+                  </Button>
+                  <Button
+                    variant={!pacingSettings.activeHours ? "default" : "outline"}
+                    onClick={() => setPacingSettings({ ...pacingSettings, activeHours: null })}
+                    size="sm"
+                  >
+                    Any time
+                  </Button>
+                  {pacingSettings.activeHours && (
+                    <TimeWindowInput
+                      value={pacingSettings.activeHours}
+                      onChange={(activeHours) => setPacingSettings({ ...pacingSettings, activeHours })}
+                    />
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <span>Quiet periods</span>
+                  {pacingSettings.quietPeriods.map((period, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <TimeWindowInput
+                        value={period}
+                        onChange={(changed) =>
+                          setPacingSettings({
+                            ...pacingSettings,
+                            quietPeriods: pacingSettings.quietPeriods.map((p, i) => (i === index ? changed : p)),
+                          })
+                        }
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setPacingSettings({
+                            ...pacingSettings,
+                            quietPeriods: pacingSettings.quietPeriods.filter((_, i) => i !== index),
+                          })
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setPacingSettings({ ...pacingSettings, quietPeriods: [...pacingSettings.quietPeriods, DEFAULT_QUIET_PERIOD] })
+                    }
+                  >
+                    Add quiet period
+                  </Button>
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Automatic replies wait to be &quot;read&quot; and are held outside active hours. A new message in the same chat replaces the waiting reply with one answering both
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Message Bursts</h3>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="space-y-1">
+                <span>Wait for quiet (s)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={burstSettings.quietSeconds}
+                  onChange={(e) => setBurstSettings({ ...burstSettings, quietSeconds: Math.max(Number(e.target.value) || 0, 0) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span>Wait at most (s)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={burstSettings.maxWaitSeconds}
+                  onChange={(e) => setBurstSettings({ ...burstSettings, maxWaitSeconds: Math.max(Number(e.target.value) || 0, 0) })}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Messages sent in a row get one reply once the chat has been quiet this long
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Your Display Name</h3>
+            <Input
+              value={selfName}
+              onChange={(e) => setSelfName(e.target.value)}
+              placeholder="Name shown on your own Discord messages"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Capture Filter ({selectedApp})</h3>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                value={captureFilter.appName ?? ""}
+                onChange={(e) => updateCaptureFilter({ appName: e.target.value })}
+                placeholder={APP_CONFIGS[selectedApp].captureFilter.appName}
+                title="App name"
+              />
+              <Input
+                value={captureFilter.windowNamePattern ?? ""}
+                onChange={(e) => updateCaptureFilter({ windowNamePattern: e.target.value })}
+                placeholder={APP_CONFIGS[selectedApp].captureFilter.windowNamePattern}
+                title="Window title pattern (regex)"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={captureFilter.maxFrameAgeSeconds ?? ""}
+                onChange={(e) => updateCaptureFilter({
+                  maxFrameAgeSeconds: e.target.value ? Number(e.target.value) : undefined,
+                })}
+                placeholder={`${APP_CONFIGS[selectedApp].captureFilter.maxFrameAgeSeconds}s`}
+                title="Max frame age (seconds)"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              App name, window title pattern and max frame age. OCR frames from other windows are ignored
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Screen Calibration ({selectedApp})</h3>
+            <CalibrationWizard app={selectedApp} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Scheduled Runs</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={pipelineMode === "queue" ? "default" : "outline"}
+                onClick={() => setPipelineMode("queue")}
+                size="sm"
+              >
+                Queue Replies
+              </Button>
+              <Button
+                variant={pipelineMode === "send" ? "default" : "outline"}
+                onClick={() => setPipelineMode("send")}
+                size="sm"
+              >
+                Send Replies
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              What the daily /api/pipeline cron run does with drafted replies
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Reply Mode</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={replyMode === "auto" ? "default" : "outline"}
+                onClick={() => setReplyMode("auto")}
+                size="sm"
+              >
+                Auto-send
+              </Button>
+              <Button
+                variant={replyMode === "review" ? "default" : "outline"}
+                onClick={() => setReplyMode("review")}
+                size="sm"
+              >
+                Review First
+              </Button>
+            </div>
+            {replyMode === "review" && (
+              <div className="flex items-center gap-2 mt-2 text-xs">
+                <span>Unreviewed after</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  value={reviewPolicy.timeoutMinutes}
+                  onChange={(e) =>
+                    setReviewPolicy({ ...reviewPolicy, timeoutMinutes: Math.max(Number(e.target.value) || 0, 0) })
+                  }
+                />
+                <span>min:</span>
+                <Select
+                  value={reviewPolicy.onTimeout}
+                  onValueChange={(value) =>
+                    setReviewPolicy({ ...reviewPolicy, onTimeout: value as ReviewPolicy["onTimeout"] })
+                  }
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="discard">Discard</SelectItem>
+                    <SelectItem value="send">Send</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Review First holds every reply until you approve it, 0 minutes waits forever
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Frame Source</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={frameSource === "stream" ? "default" : "outline"}
+                onClick={() => setFrameSource("stream")}
+                size="sm"
+              >
+                Live Stream
+              </Button>
+              <Button
+                variant={frameSource === "poll" ? "default" : "outline"}
+                onClick={() => setFrameSource("poll")}
+                size="sm"
+              >
+                Polling
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Live Stream reacts to new frames right away and falls back to polling every 5 seconds when it disconnects
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Wait While You Work</h3>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={presenceSettings.enabled ? "default" : "outline"}
+                onClick={() => setPresenceSettings({ ...presenceSettings, enabled: true })}
+                size="sm"
+              >
+                On
+              </Button>
+              <Button
+                variant={!presenceSettings.enabled ? "default" : "outline"}
+                onClick={() => setPresenceSettings({ ...presenceSettings, enabled: false })}
+                size="sm"
+              >
+                Off
+              </Button>
+              {presenceSettings.enabled && (
+                <label className="flex items-center gap-1 text-xs">
+                  <span>Idle for (s)</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="h-8 w-20"
+                    value={presenceSettings.idleSeconds}
+                    onChange={(e) =>
+                      setPresenceSettings({ ...presenceSettings, idleSeconds: Math.max(Number(e.target.value) || 0, 0) })
+                    }
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Replies wait until the mouse and keyboard have been left alone this long
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Voice Notes &amp; Calls</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={audioSettings.enabled ? "default" : "outline"}
+                onClick={() => setAudioSettings({ ...audioSettings, enabled: true })}
+                size="sm"
+              >
+                On
+              </Button>
+              <Button
+                variant={!audioSettings.enabled ? "default" : "outline"}
+                onClick={() => setAudioSettings({ ...audioSettings, enabled: false })}
+                size="sm"
+              >
+                Off
+              </Button>
+            </div>
+            {audioSettings.enabled && (
+              <div className="grid grid-cols-3 gap-2 text-xs mt-2">
+                <Button
+                  variant={audioSettings.voiceNotes ? "default" : "outline"}
+                  onClick={() => setAudioSettings({ ...audioSettings, voiceNotes: !audioSettings.voiceNotes })}
+                  size="sm"
+                >
+                  Answer Voice Notes
+                </Button>
+                <Button
+                  variant={audioSettings.pauseOnCalls ? "default" : "outline"}
+                  onClick={() => setAudioSettings({ ...audioSettings, pauseOnCalls: !audioSettings.pauseOnCalls })}
+                  size="sm"
+                >
+                  Pause On Calls
+                </Button>
+                <label className="space-y-1">
+                  <span>Call window (s)</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={audioSettings.callWindowSeconds}
+                    onChange={(e) =>
+                      setAudioSettings({ ...audioSettings, callWindowSeconds: Math.max(Number(e.target.value) || 1, 1) })
+                    }
+                  />
+                </label>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Needs realtime audio transcription in Screenpipe. Speech on both microphone and speakers counts as a call
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Action Backend</h3>
+            <div className="flex flex-wrap gap-2">
+              {ACTION_BACKENDS.map(({ id, label }) => (
+                <Button
+                  key={id}
+                  variant={actionBackend === id ? "default" : "outline"}
+                  onClick={() => setActionBackend(id)}
+                  size="sm"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Dry Run writes mouse moves, clicks and typing to the action log instead of the chat app, Fake drops them
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Memory</h3>
+            <div className="flex gap-2">
+              <Button
+                variant={memorySettings.enabled ? "default" : "outline"}
+                onClick={() => setMemorySettings({ ...memorySettings, enabled: true })}
+                size="sm"
+              >
+                On
+              </Button>
+              <Button
+                variant={!memorySettings.enabled ? "default" : "outline"}
+                onClick={() => setMemorySettings({ ...memorySettings, enabled: false })}
+                size="sm"
+              >
+                Off
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <Input
+                value={memorySettings.embeddingModel}
+                onChange={(e) => setMemorySettings({ ...memorySettings, embeddingModel: e.target.value })}
+                placeholder="Ollama embedding model"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={memorySettings.topK}
+                onChange={(e) => setMemorySettings({ ...memorySettings, topK: Math.max(Number(e.target.value) || 1, 1) })}
+                placeholder="Snippets per reply"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Past messages and your notes are embedded with Ollama (ollama pull {memorySettings.embeddingModel}) and the closest ones are added to each prompt
+            </p>
+            <div className="mt-2">
+              <MemoryNotes embeddingModel={memorySettings.embeddingModel} />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Contact Policies</h3>
+            <ContactPolicies />
+            <p className="text-xs text-gray-500 mt-1">
+              Matched against the chat title, then the sender name. Set contacts without a policy to Ignore to only reply to the listed ones
+            </p>
+          </div>
+
           <Button 
             variant="default"
             size="sm"
@@ -571,9 +992,27 @@ const ChatAutomation: React.FC = () => {
               "Start Monitoring"
             )}
           </Button>
+          {isMonitoring && state !== "starting" && (
+            <Button
+              onClick={state === "paused" ? agent.resume : agent.pause}
+              variant="outline"
+              className="w-full mt-2"
+            >
+              {state === "paused" ? "Resume" : "Pause"}
+            </Button>
+          )}
+          <div className="text-xs mt-1">
+            State: <span className={STATE_COLORS[state]}>{STATE_LABELS[state]}</span>
+            {state === "error" && stateHistory.length > 0 && (
+              <span className="text-red-500"> - {stateHistory[stateHistory.length - 1].reason}</span>
+            )}
+          </div>
           <div className="text-xs text-gray-500 mt-1">
-            You'll have 10 seconds to switch to your chat application
+            Monitoring runs on the server and keeps going if you close this tab
           </div>
+          {agent.error && (
+            <div className="text-xs text-red-500 mt-1">{agent.error}</div>
+          )}
         </div>
 
         {lastMessage && (
@@ -585,6 +1024,34 @@ const ChatAutomation: React.FC = () => {
           </div>
         )}
 
+        {replyMode === "review" && (
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Review Queue</h3>
+            <ReviewQueue />
+          </div>
+        )}
+
+        {pacingSettings.enabled && (
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Scheduled Replies</h3>
+            <ScheduledReplies />
+          </div>
+        )}
+
+        {memorySettings.enabled && (
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Reply Sources</h3>
+            <ReplySources />
+          </div>
+        )}
+
+        {(actionBackend === "recording" || agent.status.actionLog.length > 0) && (
+          <div className="space-y-1">
+            <h3 className="text-sm font-semibold">Dry Run Actions</h3>
+            <ActionLog actions={agent.status.actionLog} onClear={agent.clearActionLog} />
+          </div>
+        )}
+
         <div className="space-y-1">
           <h3 className="text-sm font-semibold">Workflow Logs</h3>
           <div className="text-xs p-2 bg-gray-50 rounded max-h-40 overflow-y-auto">
@@ -608,16 +1075,14 @@ const ChatAutomation: React.FC = () => {
             <LastOcrImage
               onDataChange={(data, error) => {
                 if (error) {
-                  addLog(`Manual OCR Error: ${error}`);
+                  console.error("Manual OCR Error:", error);
                   return;
                 }
 
                 if (data?.data?.length > 0) {
                   const text = data.data[0].content?.text;
                   if (text) {
-                    addLog(`Manual OCR successful: ${text.length} chars`);
-                    setLastOcrText(text);
-                    detectNewMessages(text);
+                    agent.ingestOcrText(text);
                   }
                 }
               }}
@@ -630,12 +1095,16 @@ const ChatAutomation: React.FC = () => {
         <div className="flex justify-between">
           <h3 className="font-semibold mb-1">Requirements</h3>
           <p className="text-xs text-blue-500">
-            Using: {aiProvider === "ollama" ? `Ollama (${ollamaModel})` : `Nebius (${nebiusModel})`}
+            Using: {aiProvider === "ollama"
+              ? `Ollama (${ollamaModel})`
+              : aiProvider === "nebius"
+                ? `Nebius (${nebiusModel})`
+                : `AI preset (${aiPresetId || "default"})`}
           </p>
         </div>
         <ul className="list-disc pl-4 space-y-1">
-          <li>Requires fixed window positioning</li>
-          <li>Windows screen scaling must be 100%</li>
+          <li>Recalibrate the layout after moving or resizing the chat window</li>
+          <li>Windows screen scaling must be 100% when using default coordinates</li>
           <li>Application must be visible on screen</li>
         </ul>
       </div>
@@ -0,0 +1,117 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { AgentConfig, AgentStatus } from '@/lib/agent/types';
+
+const STATUS_POLL_INTERVAL = 2000;
+
+const EMPTY_STATUS: AgentStatus = {
+  isMonitoring: false,
+  state: 'idle',
+  stateHistory: [],
+  config: null,
+  lastMessage: '',
+  lastOcrText: '',
+  logs: [],
+  chatHistory: [],
+  actionLog: [],
+};
+
+function callAgent(path: string, init?: RequestInit): Promise<AgentStatus> {
+  return fetchJson<AgentStatus>(`/api/agent/${path}`, init);
+}
+
+/**
+ * Thin client over the server-side chat agent. Polls /api/agent/status so the
+ * UI reflects a loop that keeps running when this tab goes away.
+ */
+export function useChatAgent() {
+  const [status, setStatus] = useState<AgentStatus>(EMPTY_STATUS);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await callAgent('status'));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch agent status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch agent status');
+    }
+  }, []);
+
+  const start = useCallback(async (config: AgentConfig) => {
+    try {
+      setStatus(await callAgent('start', { method: 'POST', body: JSON.stringify(config) }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to start agent:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start agent');
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    try {
+      setStatus(await callAgent('stop', { method: 'POST' }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to stop agent:', error);
+      setError(error instanceof Error ? error.message : 'Failed to stop agent');
+    }
+  }, []);
+
+  const pause = useCallback(async () => {
+    try {
+      setStatus(await callAgent('pause', { method: 'POST' }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to pause agent:', error);
+      setError(error instanceof Error ? error.message : 'Failed to pause agent');
+    }
+  }, []);
+
+  const resume = useCallback(async () => {
+    try {
+      setStatus(await callAgent('resume', { method: 'POST' }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to resume agent:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resume agent');
+    }
+  }, []);
+
+  const ingestOcrText = useCallback(async (text: string) => {
+    try {
+      setStatus(await callAgent('ocr', { method: 'POST', body: JSON.stringify({ text }) }));
+    } catch (error) {
+      console.error('Failed to send OCR text to agent:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send OCR text');
+    }
+  }, []);
+
+  const clearActionLog = useCallback(async () => {
+    try {
+      setStatus(await callAgent('actions', { method: 'DELETE' }));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to clear action log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to clear action log');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+    const timer = setInterval(refreshStatus, STATUS_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refreshStatus]);
+
+  return {
+    status,
+    error,
+    start,
+    stop,
+    pause,
+    resume,
+    ingestOcrText,
+    clearActionLog,
+    refreshStatus,
+  };
+}
@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { ContactMode, ContactPolicy } from '@/lib/agent/types';
+
+interface ContactPolicyStoreResponse {
+  policies: ContactPolicy[];
+  defaultMode: ContactMode;
+}
+
+export function useContactPolicies() {
+  const [policies, setPolicies] = useState<ContactPolicy[]>([]);
+  const [defaultMode, setDefaultModeState] = useState<ContactMode>('auto');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const data = await fetchJson<ContactPolicyStoreResponse>('/api/agent/contacts');
+      setPolicies(data.policies);
+      setDefaultModeState(data.defaultMode);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch contact policies:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch contact policies');
+    }
+  }, []);
+
+  const savePolicy = useCallback(async (policy: Omit<ContactPolicy, 'id' | 'updatedAt'> & { id?: string }) => {
+    try {
+      await fetchJson<ContactPolicy>('/api/agent/contacts', { method: 'POST', body: JSON.stringify(policy) });
+      await fetchPolicies();
+    } catch (error) {
+      console.error('Failed to save contact policy:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save contact policy');
+    }
+  }, [fetchPolicies]);
+
+  const deletePolicy = useCallback(async (id: string) => {
+    try {
+      await fetchJson(`/api/agent/contacts?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      await fetchPolicies();
+    } catch (error) {
+      console.error('Failed to delete contact policy:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete contact policy');
+    }
+  }, [fetchPolicies]);
+
+  const setDefaultMode = useCallback(async (mode: ContactMode) => {
+    try {
+      await fetchJson('/api/agent/contacts', { method: 'PATCH', body: JSON.stringify({ defaultMode: mode }) });
+      await fetchPolicies();
+    } catch (error) {
+      console.error('Failed to set default contact mode:', error);
+      setError(error instanceof Error ? error.message : 'Failed to set default contact mode');
+    }
+  }, [fetchPolicies]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  return {
+    policies,
+    defaultMode,
+    error,
+    fetchPolicies,
+    savePolicy,
+    deletePolicy,
+    setDefaultMode,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { ChatApp, LayoutProfile, Point } from '@/lib/agent/types';
+
+interface LayoutStoreResponse {
+  profiles: LayoutProfile[];
+  active: Partial<Record<ChatApp, string>>;
+  monitor: string | null;
+}
+
+export function useLayoutProfiles() {
+  const [profiles, setProfiles] = useState<LayoutProfile[]>([]);
+  const [active, setActive] = useState<Partial<Record<ChatApp, string>>>({});
+  const [monitor, setMonitor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const data = await fetchJson<LayoutStoreResponse>('/api/agent/layouts');
+      setProfiles(data.profiles);
+      setActive(data.active);
+      setMonitor(data.monitor);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch layout profiles:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch layout profiles');
+    }
+  }, []);
+
+  // Resolves once the cursor has been sampled, after the given delay
+  const capturePosition = useCallback(async (delayMs: number) => {
+    const data = await fetchJson<{ position: Point; monitor: string }>('/api/agent/layouts/capture', {
+      method: 'POST',
+      body: JSON.stringify({ delayMs }),
+    });
+    setMonitor(data.monitor);
+    return data.position;
+  }, []);
+
+  const saveProfile = useCallback(async (profile: Omit<LayoutProfile, 'id' | 'updatedAt'> & { id?: string }) => {
+    try {
+      await fetchJson<LayoutProfile>('/api/agent/layouts', { method: 'POST', body: JSON.stringify(profile) });
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Failed to save layout profile:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save layout profile');
+    }
+  }, [fetchProfiles]);
+
+  const activateProfile = useCallback(async (app: ChatApp, id: string) => {
+    try {
+      await fetchJson('/api/agent/layouts', { method: 'PATCH', body: JSON.stringify({ app, id }) });
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Failed to activate layout profile:', error);
+      setError(error instanceof Error ? error.message : 'Failed to activate layout profile');
+    }
+  }, [fetchProfiles]);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    try {
+      await fetchJson(`/api/agent/layouts?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Failed to delete layout profile:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete layout profile');
+    }
+  }, [fetchProfiles]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  return {
+    profiles,
+    active,
+    monitor,
+    error,
+    setError,
+    fetchProfiles,
+    capturePosition,
+    saveProfile,
+    activateProfile,
+    deleteProfile,
+  };
+}
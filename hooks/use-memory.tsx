@@ -0,0 +1,94 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { MemoryNote, ReplyRecord } from '@/lib/agent/types';
+
+const REPLIES_POLL_INTERVAL = 5000;
+
+interface MemoryResponse {
+  notes: MemoryNote[];
+  stats: { notes: number; chunks: number };
+}
+
+export function useMemoryNotes() {
+  const [notes, setNotes] = useState<MemoryNote[]>([]);
+  const [chunkCount, setChunkCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const data = await fetchJson<MemoryResponse>('/api/agent/memory');
+      setNotes(data.notes);
+      setChunkCount(data.stats.chunks);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch memory notes:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch memory notes');
+    }
+  }, []);
+
+  const addNote = useCallback(async (title: string, text: string, embeddingModel: string) => {
+    try {
+      await fetchJson<MemoryNote>('/api/agent/memory', {
+        method: 'POST',
+        body: JSON.stringify({ title, text, embeddingModel }),
+      });
+      setError(null);
+    } catch (error) {
+      console.error('Failed to add memory note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add memory note');
+    } finally {
+      await fetchNotes();
+    }
+  }, [fetchNotes]);
+
+  const deleteNote = useCallback(async (id: number) => {
+    try {
+      await fetchJson(`/api/agent/memory?id=${id}`, { method: 'DELETE' });
+      await fetchNotes();
+    } catch (error) {
+      console.error('Failed to delete memory note:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete memory note');
+    }
+  }, [fetchNotes]);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  return {
+    notes,
+    chunkCount,
+    error,
+    fetchNotes,
+    addNote,
+    deleteNote,
+  };
+}
+
+export function useReplySources(limit = 10) {
+  const [replies, setReplies] = useState<ReplyRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReplies = useCallback(async () => {
+    try {
+      const data = await fetchJson<{ replies: ReplyRecord[] }>(`/api/agent/memory/replies?limit=${limit}`);
+      setReplies(data.replies);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch replies:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch replies');
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    fetchReplies();
+    const timer = setInterval(fetchReplies, REPLIES_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [fetchReplies]);
+
+  return {
+    replies,
+    error,
+    fetchReplies,
+  };
+}
@@ -1,4 +1,9 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import * as chat from '@/lib/ai/chat';
+import type { HistoryMessage } from '@/lib/ai/chat';
+import { OpenAICompatibleProvider } from '@/lib/ai/provider';
+import { fetchConversationHistory } from '@/lib/conversation-history';
+import type { ConversationKey, OCRContext } from '@/lib/agent/types';
 import type { ClipboardItem } from './use-clipboard-history';
 
 interface NebiusOptions {
@@ -14,19 +19,6 @@ interface NebiusModel {
   version?: string;
 }
 
-// Chat functionality interfaces
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp?: number;
-}
-
-interface OCRContext {
-  text: string;
-  confidence?: number;
-  source?: string;
-}
-
 export function useNebius(defaultOptions: NebiusOptions) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -85,6 +77,15 @@ export function useNebius(defaultOptions: NebiusOptions) {
     }
   }, [defaultOptions.apiKey]);
 
+  // Browser calls go through the /api/nebius proxy, which forwards the key
+  const provider = useMemo(() => new OpenAICompatibleProvider({
+    name: 'Nebius',
+    model: currentModel,
+    baseUrl: '/api/nebius',
+    completionsPath: '/generate',
+    apiKey: defaultOptions.apiKey,
+  }), [currentModel, defaultOptions.apiKey]);
+
   const callNebius = useCallback(async (prompt: string, options: Partial<NebiusOptions> = {}) => {
     try {
       console.log('Calling Nebius with:', {
@@ -94,80 +95,30 @@ export function useNebius(defaultOptions: NebiusOptions) {
         maxTokens: options.maxTokens || defaultOptions.maxTokens
       });
 
-      const response = await fetch('/api/nebius/generate', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${defaultOptions.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: currentModel,
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: options.temperature || defaultOptions.temperature || 0.3,
-          max_tokens: options.maxTokens || defaultOptions.maxTokens || 1000
-        })
+      return await provider.complete([{ role: 'user', content: prompt }], {
+        temperature: options.temperature || defaultOptions.temperature,
+        maxTokens: options.maxTokens || defaultOptions.maxTokens,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('Nebius API error:', error);
-        throw new Error(error.message || 'Failed to call Nebius');
-      }
-
-      const data = await response.json();
-      console.log('Nebius response:', data);
-      return data.choices[0].message.content;
     } catch (error) {
       console.error('Nebius API call failed:', error);
       setError(error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
-  }, [currentModel, defaultOptions.apiKey, defaultOptions.temperature, defaultOptions.maxTokens]);
+  }, [provider, currentModel, defaultOptions.temperature, defaultOptions.maxTokens]);
 
+  // With a conversation key the history window is read from the conversation store instead of chatHistory
   const generateChatResponse = useCallback(async (
     userMessage: string, 
-    chatHistory: ChatMessage[] = [], 
-    ocrContext?: OCRContext
+    chatHistory: HistoryMessage[] = [], 
+    ocrContext?: OCRContext,
+    conversation?: ConversationKey
   ) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      let systemPrompt = "You are a friendly, helpful assistant engaged in a chat conversation. Keep your responses conversational, concise, and directly relevant to the question.";
-      
-      if (ocrContext) {
-        systemPrompt += ` You can see the following content in the chat window: "${ocrContext.text}" - use this information to provide context-aware responses.`;
-      }
-      
-      const messages = [
-        { role: "system", content: systemPrompt },
-        ...chatHistory.map(msg => ({ role: msg.role, content: msg.content })),
-        { role: "user", content: userMessage }
-      ];
-
-      const response = await fetch('/api/nebius/generate', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${defaultOptions.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: currentModel,
-          messages: messages,
-          temperature: defaultOptions.temperature || 0.3,
-          max_tokens: defaultOptions.maxTokens || 1000
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to generate chat response');
-      }
-
-      const data = await response.json();
-      return data.choices[0].message.content;
+      const history = conversation ? await fetchConversationHistory(conversation) : chatHistory;
+      return await chat.generateChatResponse(provider, userMessage, history, { ocrContext });
     } catch (error) {
       console.error('Nebius chat response failed:', error);
       setError(error instanceof Error ? error.message : 'Unknown error');
@@ -175,70 +126,67 @@ export function useNebius(defaultOptions: NebiusOptions) {
     } finally {
       setIsProcessing(false);
     }
-  }, [currentModel, defaultOptions.apiKey, defaultOptions.temperature, defaultOptions.maxTokens]);
+  }, [provider]);
+
+  const streamController = useRef<AbortController | null>(null);
+
+  // Yields the reply as it is generated, starting a new stream cancels the previous one
+  const streamChatResponse = useCallback(async function* (
+    userMessage: string,
+    chatHistory: HistoryMessage[] = [],
+    ocrContext?: OCRContext,
+    conversation?: ConversationKey
+  ) {
+    streamController.current?.abort();
+    const controller = new AbortController();
+    streamController.current = controller;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const history = conversation ? await fetchConversationHistory(conversation) : chatHistory;
+      yield* chat.streamChatResponse(provider, userMessage, history, { ocrContext, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Nebius chat stream failed:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    } finally {
+      if (streamController.current === controller) {
+        streamController.current = null;
+        setIsProcessing(false);
+      }
+    }
+  }, [provider]);
+
+  const cancelStream = useCallback(() => {
+    streamController.current?.abort();
+  }, []);
 
   const analyzeOCRText = useCallback(async (ocrText: string) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      const prompt = `I'm looking at a chat window that contains the following text detected by OCR:
-
-${ocrText}
-
-Analyze this content and extract:
-1. Who are the participants in this conversation
-2. What is the main topic being discussed
-3. Any questions that need answers
-4. Any specific information I should use in my reply`;
-      
-      const analysis = await callNebius(prompt);
-      return analysis.trim();
+      return await chat.analyzeOCRText(provider, ocrText);
     } finally {
       setIsProcessing(false);
     }
-  }, [callNebius]);
+  }, [provider]);
 
   const suggestReplies = useCallback(async (
-    chatHistory: ChatMessage[], 
+    chatHistory: HistoryMessage[], 
     ocrContext?: OCRContext
   ) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      let prompt = "Based on this chat conversation, suggest 3-5 natural, conversational replies I could send next. Make them sound human and contextually appropriate. Format as a JSON array of strings.";
-      
-      if (ocrContext) {
-        prompt += `\n\nChat window content: ${ocrContext.text}\n\n`;
-      }
-      
-      prompt += "\nConversation so far:\n";
-      chatHistory.forEach(msg => {
-        prompt += `${msg.role === 'user' ? 'Me' : 'Other'}: ${msg.content}\n`;
-      });
-      
-      prompt += "\nSuggested replies I could send:";
-      
-      const suggestions = await callNebius(prompt);
-      
-      try {
-        return JSON.parse(suggestions);
-      } catch (e) {
-        const match = suggestions.match(/\[(.*)\]/s);
-        if (match) {
-          try {
-            return JSON.parse(`[${match[1]}]`);
-          } catch {
-            return suggestions.split('\n').filter(line => line.trim().startsWith('"') || line.trim().startsWith("'"));
-          }
-        }
-        return [suggestions];
-      }
+      return await chat.suggestReplies(provider, chatHistory, ocrContext);
     } finally {
       setIsProcessing(false);
     }
-  }, [callNebius]);
+  }, [provider]);
 
   return {
     isProcessing,
@@ -250,6 +198,8 @@ Analyze this content and extract:
     currentModel,
     // Chat-specific functions
     generateChatResponse,
+    streamChatResponse,
+    cancelStream,
     analyzeOCRText,
     suggestReplies
   };
@@ -1,4 +1,9 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import * as chat from '@/lib/ai/chat';
+import type { HistoryMessage } from '@/lib/ai/chat';
+import { OllamaProvider } from '@/lib/ai/provider';
+import { fetchConversationHistory } from '@/lib/conversation-history';
+import type { ConversationKey, OCRContext } from '@/lib/agent/types';
 
 
 interface OllamaOptions {
@@ -13,19 +18,6 @@ interface OllamaModel {
   size: number;
 }
 
-// Chat functionality interfaces
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp?: number;
-}
-
-interface OCRContext {
-  text: string;
-  confidence?: number;
-  source?: string;
-}
-
 export function useOllama(defaultOptions: OllamaOptions = {}) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -59,9 +51,9 @@ export function useOllama(defaultOptions: OllamaOptions = {}) {
     }
   }, []);
 
+  const provider = useMemo(() => new OllamaProvider(currentModel), [currentModel]);
+
   const callOllama = useCallback(async (prompt: string, options: OllamaOptions = {}) => {
-    const baseUrl = 'http://localhost:11434/api';
-    
     try {
       console.log('Calling Ollama with:', {
         model: currentModel,
@@ -69,136 +61,99 @@ export function useOllama(defaultOptions: OllamaOptions = {}) {
         temperature: options.temperature || defaultOptions.temperature,
         maxTokens: options.maxTokens || defaultOptions.maxTokens
       });
-      
-      const response = await fetch(`${baseUrl}/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: currentModel,
-          prompt: prompt,
-          stream: false,
-          options: {
-            temperature: options.temperature || defaultOptions.temperature || 0.3,
-            num_predict: options.maxTokens || defaultOptions.maxTokens || 1000,
-          }
-        }),
-      });
 
-      if (!response.ok) {
-        const error = await response.json();
-        console.error('Ollama API error:', error);
-        throw new Error(error.message || 'Failed to call Ollama');
-      }
-
-      const data = await response.json();
-      return data.response;
+      return await provider.complete([{ role: 'user', content: prompt }], {
+        temperature: options.temperature || defaultOptions.temperature,
+        maxTokens: options.maxTokens || defaultOptions.maxTokens,
+      });
     } catch (error) {
       console.error('Ollama API call failed:', error);
       setError(error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
-  }, [currentModel, defaultOptions.temperature, defaultOptions.maxTokens]);
+  }, [provider, currentModel, defaultOptions.temperature, defaultOptions.maxTokens]);
 
+  // With a conversation key the history window is read from the conversation store instead of chatHistory
   const generateChatResponse = useCallback(async (
     userMessage: string, 
-    chatHistory: ChatMessage[] = [], 
-    ocrContext?: OCRContext
+    chatHistory: HistoryMessage[] = [], 
+    ocrContext?: OCRContext,
+    conversation?: ConversationKey
   ) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      // Format the chat history and OCR context into a prompt
-      let prompt = "You are a friendly assistant responding in a chat conversation. Be helpful, concise, and conversational.\n\n";
-      
-      // Add OCR context if available
-      if (ocrContext) {
-        prompt += `I can see this content in the chat window: ${ocrContext.text}\n\n`;
-      }
-      
-      // Add chat history
-      prompt += "Chat history:\n";
-      chatHistory.forEach(msg => {
-        const role = msg.role === 'assistant' ? 'Assistant' : 'Person';
-        prompt += `${role}: ${msg.content}\n`;
-      });
-      
-      // Add the current user message
-      prompt += `Person: ${userMessage}\n`;
-      prompt += "Assistant:";
-      
-      const response = await callOllama(prompt);
-      return response.trim();
+      const history = conversation ? await fetchConversationHistory(conversation) : chatHistory;
+      return await chat.generateChatResponse(provider, userMessage, history, { ocrContext });
+    } catch (error) {
+      console.error('Ollama chat response failed:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     } finally {
       setIsProcessing(false);
     }
-  }, [callOllama]);
+  }, [provider]);
+
+  const streamController = useRef<AbortController | null>(null);
+
+  // Yields the reply as it is generated, starting a new stream cancels the previous one
+  const streamChatResponse = useCallback(async function* (
+    userMessage: string,
+    chatHistory: HistoryMessage[] = [],
+    ocrContext?: OCRContext,
+    conversation?: ConversationKey
+  ) {
+    streamController.current?.abort();
+    const controller = new AbortController();
+    streamController.current = controller;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const history = conversation ? await fetchConversationHistory(conversation) : chatHistory;
+      yield* chat.streamChatResponse(provider, userMessage, history, { ocrContext, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Ollama chat stream failed:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    } finally {
+      if (streamController.current === controller) {
+        streamController.current = null;
+        setIsProcessing(false);
+      }
+    }
+  }, [provider]);
+
+  const cancelStream = useCallback(() => {
+    streamController.current?.abort();
+  }, []);
 
   const analyzeOCRText = useCallback(async (ocrText: string) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      const prompt = `I'm looking at a chat window that contains the following text detected by OCR:
-
-${ocrText}
-
-Analyze this content and extract:
-1. Who are the participants in this conversation
-2. What is the main topic being discussed
-3. Any questions that need answers
-4. Any specific information I should use in my reply`;
-      
-      const analysis = await callOllama(prompt);
-      return analysis.trim();
+      return await chat.analyzeOCRText(provider, ocrText);
     } finally {
       setIsProcessing(false);
     }
-  }, [callOllama]);
+  }, [provider]);
 
   const suggestReplies = useCallback(async (
-    chatHistory: ChatMessage[] = [], 
+    chatHistory: HistoryMessage[] = [], 
     ocrContext?: OCRContext
   ) => {
     setIsProcessing(true);
     setError(null);
     
     try {
-      let prompt = "Based on this chat conversation, suggest 3-5 natural, conversational replies I could send next. Make them sound human and contextually appropriate. Format as a JSON array of strings.";
-      
-      if (ocrContext) {
-        prompt += `\n\nChat window content: ${ocrContext.text}\n\n`;
-      }
-      
-      prompt += "\nConversation so far:\n";
-      chatHistory.forEach(msg => {
-        prompt += `${msg.role === 'user' ? 'Me' : 'Other'}: ${msg.content}\n`;
-      });
-      
-      prompt += "\nSuggested replies I could send:";
-      
-      const suggestions = await callOllama(prompt);
-      
-      try {
-        return JSON.parse(suggestions);
-      } catch (e) {
-        // If parsing fails, try to extract array-like content
-        const match = suggestions.match(/\[(.*)\]/s);
-        if (match) {
-          try {
-            return JSON.parse(`[${match[1]}]`);
-          } catch {
-            return suggestions.split('\n').filter(line => line.trim().startsWith('"') || line.trim().startsWith("'"));
-          }
-        }
-        return [suggestions];
-      }
+      return await chat.suggestReplies(provider, chatHistory, ocrContext);
     } finally {
       setIsProcessing(false);
     }
-  }, [callOllama]);
+  }, [provider]);
 
   return {
     isProcessing,
@@ -210,6 +165,8 @@ Analyze this content and extract:
     currentModel,
     // Chat-specific functions
     generateChatResponse,
+    streamChatResponse,
+    cancelStream,
     analyzeOCRText,
     suggestReplies
   };
@@ -0,0 +1,54 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { QueuedReply } from '@/lib/agent/types';
+
+const DRAFTS_POLL_INTERVAL = 3000;
+
+export function useReviewQueue() {
+  const [drafts, setDrafts] = useState<QueuedReply[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      const data = await fetchJson<{ drafts: QueuedReply[] }>('/api/agent/drafts');
+      setDrafts(data.drafts);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch drafts:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch drafts');
+    }
+  }, []);
+
+  const review = useCallback(async (id: string, action: 'approve' | 'reject', reply?: string) => {
+    try {
+      await fetchJson<QueuedReply>('/api/agent/drafts', {
+        method: 'POST',
+        body: JSON.stringify({ id, action, reply }),
+      });
+      setError(null);
+    } catch (error) {
+      console.error(`Failed to ${action} draft:`, error);
+      setError(error instanceof Error ? error.message : `Failed to ${action} draft`);
+    } finally {
+      await fetchDrafts();
+    }
+  }, [fetchDrafts]);
+
+  const approve = useCallback((id: string, reply?: string) => review(id, 'approve', reply), [review]);
+  const reject = useCallback((id: string) => review(id, 'reject'), [review]);
+
+  useEffect(() => {
+    fetchDrafts();
+    const timer = setInterval(fetchDrafts, DRAFTS_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [fetchDrafts]);
+
+  return {
+    drafts,
+    pending: drafts.filter((draft) => draft.status === 'pending'),
+    error,
+    fetchDrafts,
+    approve,
+    reject,
+  };
+}
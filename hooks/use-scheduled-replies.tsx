@@ -0,0 +1,51 @@
+import { useState, useCallback, useEffect } from 'react';
+import { fetchJson } from '@/lib/fetch-json';
+import type { ScheduledReply } from '@/lib/agent/types';
+
+const SCHEDULE_POLL_INTERVAL = 3000;
+
+export function useScheduledReplies() {
+  const [replies, setReplies] = useState<ScheduledReply[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReplies = useCallback(async () => {
+    try {
+      const data = await fetchJson<{ replies: ScheduledReply[] }>('/api/agent/scheduled');
+      setReplies(data.replies);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to fetch scheduled replies:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch scheduled replies');
+    }
+  }, []);
+
+  const cancel = useCallback(async (id: string) => {
+    try {
+      await fetchJson<ScheduledReply>(`/api/agent/scheduled?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      setError(null);
+    } catch (error) {
+      console.error('Failed to cancel scheduled reply:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel scheduled reply');
+    } finally {
+      await fetchReplies();
+    }
+  }, [fetchReplies]);
+
+  useEffect(() => {
+    fetchReplies();
+    const timer = setInterval(fetchReplies, SCHEDULE_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [fetchReplies]);
+
+  return {
+    replies,
+    scheduled: replies
+      .filter((reply) => reply.status === 'scheduled')
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt)),
+    error,
+    fetchReplies,
+    cancel,
+  };
+}
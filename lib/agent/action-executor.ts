@@ -0,0 +1,203 @@
+import { pipe } from "@screenpipe/js";
+import { loadRobot } from "./robot";
+import type { ActionBackend, AgentConfig, RecordedAction, UiActionKind } from "./types";
+
+export type MouseButton = "left" | "right" | "middle";
+
+/**
+ * Everything the agent does to the screen. Senders and the monitor loop only
+ * talk to this, the backend is picked in settings.
+ */
+export interface ActionExecutor {
+  readonly name: string;
+  // false when actions never reach the screen (dry run, tests)
+  readonly live: boolean;
+  openApplication(name: string): Promise<boolean>;
+  moveMouse(x: number, y: number): Promise<boolean>;
+  click(button: MouseButton): Promise<boolean>;
+  type(text: string): Promise<boolean>;
+  press(key: string): Promise<boolean>;
+}
+
+const MAX_RECORDED_ACTIONS = 200;
+
+// Shared by the agent loop and pipeline runs, kept across hot reloads in development
+const globalForActions = globalThis as unknown as { recordedActions?: RecordedAction[] };
+
+export function getRecordedActions(): RecordedAction[] {
+  return globalForActions.recordedActions ?? [];
+}
+
+export function clearRecordedActions() {
+  globalForActions.recordedActions = [];
+}
+
+// Replies are typed key by key, one entry per run of typing keeps a log readable
+function appendAction(actions: RecordedAction[], kind: UiActionKind, detail: string): RecordedAction[] {
+  const last = actions[actions.length - 1];
+  if (kind === "type" && last?.kind === "type") {
+    last.detail += detail;
+    return actions;
+  }
+  return [...actions, { kind, detail, time: new Date().toISOString() }];
+}
+
+// Drives the screen through Screenpipe's input control
+export class PixelExecutor implements ActionExecutor {
+  readonly name = "screenpipe";
+  readonly live = true;
+
+  openApplication(name: string) {
+    return pipe.operator.openApplication(name);
+  }
+
+  moveMouse(x: number, y: number) {
+    return pipe.operator.pixel.moveMouse(x, y);
+  }
+
+  click(button: MouseButton) {
+    return pipe.operator.pixel.click(button);
+  }
+
+  type(text: string) {
+    return pipe.operator.pixel.type(text);
+  }
+
+  press(key: string) {
+    return pipe.operator.pixel.press(key);
+  }
+}
+
+/**
+ * Drives the screen locally through robotjs, without a round trip to
+ * Screenpipe. robotjs cannot launch apps, that still goes through Screenpipe.
+ */
+export class RobotExecutor implements ActionExecutor {
+  readonly name = "robotjs";
+  readonly live = true;
+
+  openApplication(name: string) {
+    return pipe.operator.openApplication(name);
+  }
+
+  async moveMouse(x: number, y: number) {
+    (await loadRobot()).moveMouse(x, y);
+    return true;
+  }
+
+  async click(button: MouseButton) {
+    (await loadRobot()).mouseClick(button);
+    return true;
+  }
+
+  async type(text: string) {
+    (await loadRobot()).typeString(text);
+    return true;
+  }
+
+  async press(key: string) {
+    (await loadRobot()).keyTap(key);
+    return true;
+  }
+}
+
+// Dry run: actions go to the action log shown in the UI instead of the screen
+export class RecordingExecutor implements ActionExecutor {
+  readonly name = "dry run";
+  readonly live = false;
+
+  openApplication(name: string) {
+    return this.record("open", name);
+  }
+
+  moveMouse(x: number, y: number) {
+    return this.record("move", `${Math.round(x)}, ${Math.round(y)}`);
+  }
+
+  click(button: MouseButton) {
+    return this.record("click", button);
+  }
+
+  type(text: string) {
+    return this.record("type", text);
+  }
+
+  press(key: string) {
+    return this.record("press", key);
+  }
+
+  private async record(kind: UiActionKind, detail: string) {
+    globalForActions.recordedActions = appendAction(getRecordedActions(), kind, detail).slice(-MAX_RECORDED_ACTIONS);
+    return true;
+  }
+}
+
+/**
+ * Keeps actions on the instance only, for tests and for exercising the agent
+ * without touching the screen or the shared action log. Like the action log
+ * it keeps the latest MAX_RECORDED_ACTIONS, the backend can stay selected
+ * for a whole monitoring session. failOn makes actions of that kind throw,
+ * once failAfter of them went through.
+ */
+export class FakeExecutor implements ActionExecutor {
+  readonly name = "fake";
+  readonly live = false;
+  actions: RecordedAction[] = [];
+
+  private attempts = 0;
+
+  constructor(private failOn?: UiActionKind, private failAfter = 0) {}
+
+  openApplication(name: string) {
+    return this.record("open", name);
+  }
+
+  moveMouse(x: number, y: number) {
+    return this.record("move", `${Math.round(x)}, ${Math.round(y)}`);
+  }
+
+  click(button: MouseButton) {
+    return this.record("click", button);
+  }
+
+  type(text: string) {
+    return this.record("type", text);
+  }
+
+  press(key: string) {
+    return this.record("press", key);
+  }
+
+  // Text the actions would have left in an input box, backspace included
+  get typedText(): string {
+    return this.actions.reduce(
+      (text, action) =>
+        action.kind === "type" ? text + action.detail : action.kind === "press" && action.detail === "backspace" ? text.slice(0, -1) : text,
+      ""
+    );
+  }
+
+  private async record(kind: UiActionKind, detail: string) {
+    if (kind === this.failOn && ++this.attempts > this.failAfter) {
+      throw new Error(`fake ${kind} failed`);
+    }
+    this.actions = appendAction(this.actions, kind, detail).slice(-MAX_RECORDED_ACTIONS);
+    return true;
+  }
+}
+
+const fakeExecutor = new FakeExecutor();
+
+export function resolveActionExecutor(config: Pick<AgentConfig, "actionBackend">): ActionExecutor {
+  const backend: ActionBackend = config.actionBackend ?? "pixel";
+  switch (backend) {
+    case "robotjs":
+      return new RobotExecutor();
+    case "recording":
+      return new RecordingExecutor();
+    case "fake":
+      return fakeExecutor;
+    default:
+      return new PixelExecutor();
+  }
+}
@@ -0,0 +1,113 @@
+import type {
+  AudioSettings,
+  BurstSettings,
+  CaptureFilter,
+  ChatApp,
+  FailoverPolicy,
+  MemorySettings,
+  PacingSettings,
+  Point,
+  PresenceSettings,
+  ReviewPolicy,
+  TypingSettings,
+} from "./types";
+
+export interface AppConfig {
+  // name passed to pipe.operator.openApplication
+  applicationName: string;
+  inputBox: Point;
+  sendButton: Point;
+  // which OCR frames count as coming from this app
+  captureFilter: CaptureFilter;
+  // placeholder text shown inside the empty compose box, used to find it on screen
+  composeAnchors: RegExp[];
+  // OCR lines of a voice note bubble, speaker audio only counts as one while such a line is visible
+  voiceNoteAnchors: RegExp[];
+}
+
+// Default coordinates, used until a layout profile is calibrated for the app
+export const APP_CONFIGS: Record<ChatApp, AppConfig> = {
+  whatsapp: {
+    applicationName: "Whatsapp",
+    inputBox: { x: 650, y: 680 },
+    sendButton: { x: 720, y: 680 },
+    captureFilter: {
+      appName: "WhatsApp",
+      windowNamePattern: "whatsapp",
+      maxFrameAgeSeconds: 30,
+    },
+    composeAnchors: [/^type a message$/i],
+    // the duration under the waveform, read together with the bubble's time
+    voiceNoteAnchors: [/^\d{1,2}:[0-5]\d\s+\d{1,2}[:.]\d{2}(?:\s?[ap]\.?m\.?)?(?:\s*[✓✔√]{1,2})?$/i],
+  },
+  discord: {
+    applicationName: "Discord",
+    inputBox: { x: 600, y: 700 },
+    sendButton: { x: 670, y: 700 },
+    captureFilter: {
+      appName: "Discord",
+      windowNamePattern: "discord",
+      maxFrameAgeSeconds: 30,
+    },
+    composeAnchors: [/^message [#@].+$/i],
+    // the duration next to the play button, on a line of its own
+    voiceNoteAnchors: [/^\d{1,2}:[0-5]\d$/],
+  },
+};
+
+// Used when review mode is on but the client sent no policy
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  timeoutMinutes: 30,
+  onTimeout: "discard",
+};
+
+// Memory is opt-in since it needs an embedding model pulled in Ollama
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  enabled: false,
+  embeddingModel: "nomic-embed-text",
+  topK: 3,
+};
+
+// No fallbacks, one retry, so a single hiccup does not drop a reply
+export const DEFAULT_FAILOVER_POLICY: FailoverPolicy = {
+  fallbacks: [],
+  maxRetries: 1,
+  timeoutSeconds: 60,
+  backoffSeconds: 2,
+};
+
+// An average typist who sometimes fixes a typo
+export const DEFAULT_TYPING_SETTINGS: TypingSettings = {
+  wordsPerMinute: 70,
+  jitter: 0.35,
+  punctuationPauseMs: 250,
+  typoRate: 0.02,
+};
+
+// Off by default, replies go out as soon as they are typed
+export const DEFAULT_PACING_SETTINGS: PacingSettings = {
+  enabled: false,
+  readDelaySeconds: 5,
+  readMsPerChar: 50,
+  maxReadDelaySeconds: 60,
+  activeHours: null,
+  quietPeriods: [],
+};
+
+// Long enough for a quick follow-up, short enough not to feel ignored
+export const DEFAULT_BURST_SETTINGS: BurstSettings = {
+  quietSeconds: 8,
+  maxWaitSeconds: 30,
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  enabled: false,
+  voiceNotes: true,
+  pauseOnCalls: true,
+  callWindowSeconds: 20,
+};
+
+export const DEFAULT_PRESENCE_SETTINGS: PresenceSettings = {
+  enabled: true,
+  idleSeconds: 15,
+};
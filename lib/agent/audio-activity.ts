@@ -0,0 +1,34 @@
+import type { TranscriptionEvent } from "./event-stream";
+
+/**
+ * Tracks which audio devices carried speech recently. Speech on both the
+ * microphone and the speakers means a call, speaker audio alone is something
+ * being played back, like a voice note.
+ */
+export class CallDetector {
+  private lastInputAt = -Infinity;
+  private lastOutputAt = -Infinity;
+
+  record(chunk: TranscriptionEvent, now = Date.now()) {
+    if (!chunk.text.trim()) return;
+    if (chunk.isInput) {
+      this.lastInputAt = now;
+    } else {
+      this.lastOutputAt = now;
+    }
+  }
+
+  isOnCall(windowSeconds: number, now = Date.now()): boolean {
+    const since = now - windowSeconds * 1000;
+    return this.lastInputAt >= since && this.lastOutputAt >= since;
+  }
+
+  isPlayback(windowSeconds: number, now = Date.now()): boolean {
+    return this.lastOutputAt >= now - windowSeconds * 1000 && !this.isOnCall(windowSeconds, now);
+  }
+
+  reset() {
+    this.lastInputAt = -Infinity;
+    this.lastOutputAt = -Infinity;
+  }
+}
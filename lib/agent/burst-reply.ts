@@ -0,0 +1,208 @@
+import { generateChatResponse, streamChatResponse, tapStream } from "@/lib/ai/chat";
+import type { LLMProvider } from "@/lib/ai/provider";
+import { decideReply, recordContactReply } from "./contact-policies";
+import { DEFAULT_HISTORY_WINDOW, getHistoryWindow, recordReply, updateDraftReply } from "./conversation-store";
+import { rememberAnsweredMessage } from "./detection";
+import { resolveTypingSettings } from "./humanizer";
+import { findRelevantSnippets } from "./memory";
+import { planSendTime } from "./pacing";
+import { restoreScheduledReplies, scheduleReply, takeScheduledReplies } from "./reply-schedule";
+import { enqueueDraft } from "./review-queue";
+import type {
+  AgentConfig,
+  ConversationKey,
+  OCRContext,
+  ParsedMessage,
+  PipelineReplyReport,
+  ScheduledReply,
+  TypingSettings,
+} from "./types";
+
+export interface BurstMessage {
+  parsed: ParsedMessage;
+  // id of the incoming message in the conversation store
+  messageId: number;
+}
+
+export interface BurstReplyHooks {
+  log: (message: string) => void;
+  // called once a reply is needed, so bursts that are skipped work without a provider
+  resolveProvider: () => Promise<LLMProvider>;
+  // called when the decision is made and generating starts
+  onGenerate?: (contact: string | null) => void;
+  ocrContext?: OCRContext;
+  // aborting cancels generating, and sending when it has not started yet
+  signal?: AbortSignal;
+  /**
+   * Types the streamed reply. Resolves null when the send never started, e.g.
+   * because the user stayed active, false or throws when it failed. A string
+   * is the reason the reply's chat isn't open, the reply is queued for review
+   * instead of typed into another chat.
+   */
+  send: (chunks: AsyncIterable<string>, typing: TypingSettings) => Promise<boolean | string | null>;
+  // when set, a send that never started is scheduled with this reason and goes out with the other scheduled replies
+  holdReason?: string;
+}
+
+export interface BurstReplyOutcome {
+  // cancelled when the signal aborted or a send never started without a holdReason
+  status: PipelineReplyReport["status"] | "cancelled";
+  contact?: string;
+  reply?: string;
+  error?: string;
+  scheduled?: ScheduledReply;
+  // waiting replies of the chat that the scheduled one replaced
+  merged: number;
+  // why a reply meant to be sent was queued instead
+  queuedReason?: string;
+}
+
+/**
+ * Replies once to a burst of messages from one conversation, newest last.
+ * The newest message decides the contact policy, which either queues a
+ * draft, schedules a paced reply that replaces the replies still waiting in
+ * the chat, or streams the reply straight into the chat. Merged replies go
+ * back into the schedule when no reply replaces them, errors are rethrown.
+ */
+export async function replyToBurst(
+  config: AgentConfig,
+  conversation: ConversationKey,
+  burst: BurstMessage[],
+  autoSend: boolean,
+  hooks: BurstReplyHooks
+): Promise<BurstReplyOutcome> {
+  const { parsed, messageId } = burst[burst.length - 1];
+  const decision = await decideReply(config, { chatTitle: conversation.chat, sender: parsed.sender }, autoSend);
+  const contact = decision.contact ?? undefined;
+  if (decision.action === "skip") {
+    return { status: "skipped", contact, error: decision.reason, merged: 0 };
+  }
+
+  const rememberBurst = async () => {
+    for (const pending of burst) {
+      await rememberAnsweredMessage(pending.parsed.text);
+    }
+  };
+
+  hooks.onGenerate?.(decision.contact);
+
+  // Replies taken out of the schedule go back unless the reply replacing them gets scheduled
+  let merged: ScheduledReply[] = [];
+  let replaced = false;
+
+  try {
+    // With pacing, replies still waiting in this chat are replaced by one that answers everything
+    const paced = decision.action === "send" && !!config.pacing?.enabled;
+    merged = paced ? await takeScheduledReplies(conversation) : [];
+    if (merged.length > 0) {
+      hooks.log(`Merging ${merged.length} waiting reply(s) into one`);
+    }
+    const answering = [
+      ...merged.flatMap((reply) => reply.messages),
+      ...burst.map((pending) => ({ id: pending.messageId, text: pending.parsed.text })),
+    ];
+    const prompt = answering.map((entry) => entry.text).join("\n");
+
+    const provider = await hooks.resolveProvider();
+    hooks.log(`Generating response with ${provider.name}`);
+    const history = getHistoryWindow(conversation, DEFAULT_HISTORY_WINDOW, answering[0].id);
+    const snippets = await findRelevantSnippets(config, prompt, history, hooks.log);
+    const options = {
+      ocrContext: hooks.ocrContext,
+      persona: decision.policy?.persona,
+      snippets,
+      signal: hooks.signal,
+    };
+    const model = provider.model;
+
+    const schedule = async (reply: string, sendAt: Date, holdReason?: string) => {
+      const scheduled = await scheduleReply({
+        app: conversation.app,
+        chat: conversation.chat,
+        contact,
+        messages: answering,
+        reply,
+        model,
+        sendAt: sendAt.toISOString(),
+        holdReason,
+      });
+      replaced = true;
+      for (const reply of merged) {
+        updateDraftReply(reply.id, "rejected");
+      }
+      recordReply(conversation, { messageId, text: reply, model, status: "pending", draftId: scheduled.id, snippets });
+      await rememberBurst();
+      // a merged reply was already counted towards the cap
+      if (merged.length === 0) {
+        await recordContactReply(decision.policy);
+      }
+      return { status: "scheduled" as const, contact, reply, scheduled, merged: merged.length };
+    };
+
+    const queue = async (queuedReason?: string) => {
+      // Drafts are reviewed as a whole, so they are not streamed
+      const reply = await generateChatResponse(provider, prompt, history, options);
+      const draft = await enqueueDraft(config, prompt, reply, {
+        contact,
+        chat: conversation.chat,
+        requireApproval: decision.policy?.mode === "draft",
+        model,
+      });
+      recordReply(conversation, { messageId, text: reply, model: draft.model, status: "pending", draftId: draft.id, snippets });
+      await rememberBurst();
+      await recordContactReply(decision.policy);
+      return { status: "queued" as const, contact, reply, merged: 0, queuedReason };
+    };
+
+    if (decision.action === "draft") {
+      return await queue();
+    }
+
+    if (hooks.signal?.aborted) {
+      return { status: "cancelled", contact, merged: 0 };
+    }
+
+    if (paced && config.pacing) {
+      const reply = await generateChatResponse(provider, prompt, history, options);
+      const slot = planSendTime(prompt, config.pacing);
+      return await schedule(reply, slot.sendAt, slot.holdReason);
+    }
+
+    // Typing starts with the first chunk, the full text is kept for the record
+    const stream = tapStream(streamChatResponse(provider, prompt, history, options));
+    let sent: boolean | string | null;
+    try {
+      sent = await hooks.send(stream.chunks, resolveTypingSettings(config, decision.policy));
+    } catch (err) {
+      recordReply(conversation, { messageId, text: stream.text(), model, status: "failed", snippets });
+      throw err;
+    }
+
+    if (sent === null) {
+      if (!hooks.holdReason) {
+        return { status: "cancelled", contact, merged: 0 };
+      }
+      // The stream never started, the reply goes out with the scheduled ones once the user is idle
+      const reply = await generateChatResponse(provider, prompt, history, options);
+      return await schedule(reply, new Date(), hooks.holdReason);
+    }
+    if (typeof sent === "string") {
+      return await queue(sent);
+    }
+
+    const reply = stream.text();
+    recordReply(conversation, { messageId, text: reply, model, status: sent ? "sent" : "failed", snippets });
+    if (!sent) {
+      return { status: "failed", contact, reply, error: "the reply could not be sent", merged: 0 };
+    }
+    await rememberBurst();
+    await recordContactReply(decision.policy);
+    return { status: "sent", contact, reply, merged: 0 };
+  } finally {
+    if (!replaced) {
+      await restoreScheduledReplies(merged).catch((err) =>
+        console.error("agent: failed to restore merged replies:", err)
+      );
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import type { BurstSettings, ConversationKey } from "./types";
+
+interface PendingBurst<T> {
+  items: T[];
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const conversationId = (key: ConversationKey) => `${key.app}:${(key.chat ?? "").toLowerCase()}`;
+
+/**
+ * Collects messages per conversation until the chat has been quiet for a
+ * while, then hands the whole burst over at once. Every new message restarts
+ * the wait, but a burst never waits longer than maxWaitSeconds in total.
+ */
+export class BurstAggregator<T> {
+  private bursts = new Map<string, PendingBurst<T>>();
+
+  constructor(private onFlush: (items: T[]) => void) {}
+
+  add(key: ConversationKey, items: T[], settings: BurstSettings) {
+    const id = conversationId(key);
+    const now = Date.now();
+    const pending = this.bursts.get(id);
+    if (pending) {
+      clearTimeout(pending.timer);
+    }
+
+    const startedAt = pending?.startedAt ?? now;
+    const waitMs = Math.max(Math.min(settings.quietSeconds * 1000, startedAt + settings.maxWaitSeconds * 1000 - now), 0);
+    this.bursts.set(id, {
+      items: [...(pending?.items ?? []), ...items],
+      startedAt,
+      timer: setTimeout(() => this.flush(id), waitMs),
+    });
+  }
+
+  // Drops every waiting burst without replying
+  clear() {
+    for (const burst of this.bursts.values()) {
+      clearTimeout(burst.timer);
+    }
+    this.bursts.clear();
+  }
+
+  private flush(id: string) {
+    const burst = this.bursts.get(id);
+    if (!burst) return;
+    this.bursts.delete(id);
+    this.onFlush(burst.items);
+  }
+}
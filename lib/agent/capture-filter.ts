@@ -0,0 +1,63 @@
+import type { OCRContent, ScreenpipeQueryParams } from "@screenpipe/js";
+import { APP_CONFIGS } from "./app-configs";
+import type { AgentConfig, CaptureFilter } from "./types";
+
+export function resolveCaptureFilter(config: AgentConfig): CaptureFilter {
+  const defaults = APP_CONFIGS[config.app].captureFilter;
+  const overrides = config.captureFilter ?? {};
+  return {
+    appName: overrides.appName || defaults.appName,
+    windowNamePattern: overrides.windowNamePattern || defaults.windowNamePattern,
+    maxFrameAgeSeconds: overrides.maxFrameAgeSeconds ?? defaults.maxFrameAgeSeconds,
+  };
+}
+
+/**
+ * Builds an OCR query scoped to the chat app. Window titles are matched
+ * locally since queryScreenpipe only does substring matching on windowName.
+ */
+export function buildOcrQuery(
+  filter: CaptureFilter,
+  params: Omit<ScreenpipeQueryParams, "contentType" | "appName"> = {}
+): ScreenpipeQueryParams {
+  return {
+    contentType: "ocr",
+    appName: filter.appName,
+    ...params,
+  };
+}
+
+/**
+ * Returns why a frame does not belong to the monitored app, or null when it
+ * passes the filter. Pass `now` to also reject frames older than the max age.
+ */
+export function getFrameRejection(
+  frame: Pick<OCRContent, "appName" | "windowName" | "timestamp">,
+  filter: CaptureFilter,
+  now?: number
+): string | null {
+  if (!frame.appName?.toLowerCase().includes(filter.appName.toLowerCase())) {
+    return `app "${frame.appName || "unknown"}" is not ${filter.appName}`;
+  }
+
+  if (filter.windowNamePattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(filter.windowNamePattern, "i");
+    } catch {
+      return `invalid window title pattern "${filter.windowNamePattern}"`;
+    }
+    if (!pattern.test(frame.windowName || "")) {
+      return `window "${frame.windowName || "unknown"}" does not match /${filter.windowNamePattern}/`;
+    }
+  }
+
+  if (now !== undefined) {
+    const ageSeconds = (now - new Date(frame.timestamp).getTime()) / 1000;
+    if (!Number.isFinite(ageSeconds) || ageSeconds > filter.maxFrameAgeSeconds) {
+      return `frame is ${Number.isFinite(ageSeconds) ? Math.round(ageSeconds) + "s" : "of unknown age"}, older than ${filter.maxFrameAgeSeconds}s`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,861 @@
+import { pipe } from "@screenpipe/js";
+import { getRecordedActions, resolveActionExecutor } from "./action-executor";
+import {
+  APP_CONFIGS,
+  DEFAULT_AUDIO_SETTINGS,
+  DEFAULT_BURST_SETTINGS,
+  DEFAULT_PRESENCE_SETTINGS,
+  DEFAULT_REVIEW_POLICY,
+} from "./app-configs";
+import { CallDetector } from "./audio-activity";
+import { BurstAggregator } from "./burst";
+import { replyToBurst } from "./burst-reply";
+import { buildOcrQuery, getFrameRejection, resolveCaptureFilter } from "./capture-filter";
+import { parseChatTitle, parseConversation } from "./conversation-parser";
+import { getHistoryWindow, listRecentSentTexts, recordIncomingMessage, updateDraftReply } from "./conversation-store";
+import { loadAnsweredMessages, UnansweredMessageDetector } from "./detection";
+import { ECHO_LOOKBACK, markSelfEchoes } from "./echo";
+import {
+  streamTranscriptions,
+  streamUiEvents,
+  streamVisionFrames,
+  type TranscriptionEvent,
+  type VisionFrame,
+} from "./event-stream";
+import { getFocusRejection } from "./focus-guard";
+import { resolveProviderChain } from "./llm";
+import { MonitorStateMachine } from "./monitor-state";
+import { PresenceDetector } from "./presence";
+import { cancelScheduledReply, hasDueReplies, processDueReplies } from "./reply-schedule";
+import {
+  approveDraft,
+  hasExpiredDraftsToSend,
+  processExpiredDrafts,
+  rejectDraft,
+} from "./review-queue";
+import { getCursorPosition } from "./robot";
+import { getStoredReplyHold, sendReply, sendStoredReply } from "./sender";
+import { readJson, writeJson } from "./storage";
+import type {
+  AgentConfig,
+  AgentLogEntry,
+  AgentStatus,
+  BurstSettings,
+  CaptureFilter,
+  ChatApp,
+  ConversationKey,
+  MonitorState,
+  ParsedMessage,
+  PresenceSettings,
+  QueuedReply,
+  ScheduledReply,
+  TypingSettings,
+} from "./types";
+
+const MAX_LOGS = 10;
+
+const MONITOR_INTERVAL_MS = 5000;
+// Screenpipe being down for this many cycles in a row ends monitoring
+const MAX_OCR_ERRORS = 3;
+// The stream carries every app's frames, the same rejection is logged at most this often
+const REJECTION_LOG_INTERVAL_MS = 30000;
+// Polling covers for the vision stream until it reconnects
+const STREAM_RETRY_MS = 30000;
+// How often a held send checks whether the user went idle
+const IDLE_CHECK_MS = 1000;
+// Without monitoring there is no waiting state to pause, a send gives up after this
+const MAX_DETACHED_IDLE_WAIT_MS = 60000;
+// A voice note is transcribed in pieces, it ends when the speakers go quiet
+const VOICE_NOTE_SETTINGS: BurstSettings = { quietSeconds: 3, maxWaitSeconds: 120 };
+
+interface PendingMessage {
+  parsed: ParsedMessage;
+  messageId: number;
+  conversation: ConversationKey;
+}
+
+interface VoiceNotePart {
+  text: string;
+  conversation: ConversationKey;
+}
+
+export const AGENT_CONFIG_FILE = "agent-config.json";
+
+/**
+ * Runs the monitor -> detect -> reply loop inside the Next.js Node runtime so
+ * automation keeps going when the browser tab is closed or reloaded. The
+ * chat automation component only talks to it through /api/agent/*.
+ */
+export class ChatAgent {
+  private config: AgentConfig | null = null;
+  private machine = new MonitorStateMachine();
+  // bumped by every start and stop, work from an older session must not touch the state
+  private session = 0;
+  // replies and scheduled sends run one at a time, in the order they were queued
+  private replyQueue: Promise<void> = Promise.resolve();
+  // messages wait here until their chat goes quiet, then get one reply
+  private bursts = new BurstAggregator<PendingMessage>((burst) => {
+    this.enqueue(() => this.generateAndSendResponse(burst));
+  });
+  private lastMessage = "";
+  private lastOcrText = "";
+  private logs: AgentLogEntry[] = [];
+  private detector = new UnansweredMessageDetector();
+  // conversation of the last detected message, shown in the status
+  private lastConversation: ConversationKey | null = null;
+  private monitoringTimer: NodeJS.Timeout | null = null;
+  // cancels the reply being generated or typed when monitoring stops
+  private replyController: AbortController | null = null;
+  private ocrErrors = 0;
+  private lastRejection = { reason: "", at: 0 };
+  // closes the vision and transcription streams when monitoring stops
+  private streamController: AbortController | null = null;
+  // while the stream is open the monitor loop only handles drafts and scheduled sends
+  private visionConnected = false;
+  // last time a frame of the monitored chat passed the capture filter
+  private lastChatFrameAt = 0;
+  private calls = new CallDetector();
+  // set when a call paused monitoring, so only the end of that call resumes it
+  private pausedForCall = false;
+  private presence = new PresenceDetector();
+  // robotjs missing, presence then only comes from UI events
+  private cursorUnavailable = false;
+  private voiceNotes = new BurstAggregator<VoiceNotePart>((parts) => {
+    this.ingestVoiceNote(parts.map((part) => part.text).join(" "), parts[0].conversation);
+  });
+
+  constructor() {
+    this.machine.subscribe(({ from, to, reason }) => {
+      this.addLog(`State: ${from} -> ${to}${reason ? ` (${reason})` : ""}`);
+      if (from === "sending") {
+        this.presence.noteOwnAction();
+      }
+    });
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      isMonitoring: this.machine.isActive,
+      state: this.machine.state,
+      stateHistory: this.machine.transitions,
+      config: this.config,
+      lastMessage: this.lastMessage,
+      lastOcrText: this.lastOcrText,
+      logs: this.logs,
+      chatHistory: this.lastConversation ? getHistoryWindow(this.lastConversation) : [],
+      actionLog: getRecordedActions(),
+    };
+  }
+
+  async start(config: AgentConfig) {
+    if (this.machine.isActive) {
+      this.stop();
+    }
+
+    console.log("agent: start called for app:", config.app);
+    const session = ++this.session;
+    this.config = config;
+    this.ocrErrors = 0;
+    this.lastChatFrameAt = 0;
+    this.pausedForCall = false;
+    this.calls.reset();
+    this.presence.reset();
+    this.cursorUnavailable = false;
+    this.detector.reset();
+    this.machine.transition("starting", config.app);
+
+    try {
+      // Persist so scheduled pipeline runs can reuse the last configuration
+      await writeJson(AGENT_CONFIG_FILE, config);
+      const executor = resolveActionExecutor(config);
+      if (!executor.live) {
+        this.addLog(`Using the ${executor.name} action backend, nothing is typed into the chat`);
+      }
+      await executor.openApplication(APP_CONFIGS[config.app].applicationName);
+      this.presence.noteOwnAction();
+    } catch (err) {
+      if (session === this.session) {
+        this.machine.transition("error", err instanceof Error ? err.message : "failed to start");
+      }
+      throw err;
+    }
+
+    // stopped while the app was opening
+    if (session !== this.session) return;
+    this.monitoringTimer = setTimeout(() => {
+      this.machine.transition("polling");
+      this.streamController = new AbortController();
+      if ((config.frameSource ?? "stream") === "stream") {
+        this.watchVision(session, this.streamController.signal);
+      } else {
+        this.addLog("Polling Screenpipe for frames");
+      }
+      if (config.audio?.enabled) {
+        this.watchAudio(session, this.streamController.signal);
+      }
+      if (this.presenceSettings()) {
+        this.watchPresence(session, this.streamController.signal);
+      }
+      this.monitorChat(session);
+    }, 1000);
+  }
+
+  stop() {
+    console.log("agent: stop called");
+    this.session++;
+    if (this.monitoringTimer) {
+      clearTimeout(this.monitoringTimer);
+      this.monitoringTimer = null;
+    }
+    this.bursts.clear();
+    this.voiceNotes.clear();
+    this.replyController?.abort();
+    this.streamController?.abort();
+    this.streamController = null;
+    if (this.machine.state !== "idle") {
+      this.machine.transition("idle", "stopped");
+    }
+    this.addLog(`Stopped monitoring ${this.config?.app ?? "chat"}`);
+  }
+
+  /**
+   * Stops polling and cancels the reply in progress, but keeps the session so
+   * resume() carries on where monitoring left off.
+   */
+  pause(reason?: string) {
+    if (!this.machine.can("paused")) {
+      throw new Error(`cannot pause while ${this.machine.state}`);
+    }
+    this.bursts.clear();
+    this.voiceNotes.clear();
+    this.replyController?.abort();
+    this.pausedForCall = false;
+    this.machine.transition("paused", reason);
+  }
+
+  resume(reason = "resumed") {
+    if (this.machine.state !== "paused") {
+      throw new Error(`cannot resume while ${this.machine.state}`);
+    }
+    this.machine.transition("polling", reason);
+  }
+
+  // Moves to a new state unless the session that asked for it has ended
+  private transition(session: number, to: MonitorState, reason?: string) {
+    if (session === this.session && this.machine.can(to)) {
+      this.machine.transition(to, reason);
+    }
+  }
+
+  // Back to polling once a reply or scheduled send is done, a pause in the meantime wins
+  private settle(session: number) {
+    const state = this.machine.state;
+    if (state === "generating" || state === "waiting" || state === "sending") {
+      this.transition(session, "polling");
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.replyQueue.then(task);
+    this.replyQueue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  /**
+   * Feeds OCR text captured outside the loop (e.g. the manual OCR button)
+   * through the same detection path.
+   */
+  async ingestOcrText(text: string) {
+    this.addLog(`Manual OCR successful: ${text.length} chars`);
+    await this.detectNewMessages(text);
+  }
+
+  /**
+   * Answers a transcribed voice note like a typed message. It never shows up
+   * as text in a frame, so it skips the frame diff and goes straight to the
+   * burst of its conversation.
+   */
+  private ingestVoiceNote(transcription: string, conversation: ConversationKey) {
+    if (!this.config || this.machine.state !== "polling") return;
+
+    const message: ParsedMessage = {
+      sender: conversation.chat ?? null,
+      text: `[Voice note] ${transcription}`,
+      time: null,
+      direction: "incoming",
+    };
+    this.lastMessage = message.text;
+    this.lastConversation = conversation;
+    const messageId = recordIncomingMessage(conversation, message);
+    this.addLog(`Voice note: "${transcription.substring(0, 30)}${transcription.length > 30 ? "..." : ""}"`);
+    const settings = this.config.burst ?? DEFAULT_BURST_SETTINGS;
+    this.bursts.add(conversation, [{ parsed: message, messageId, conversation }], settings);
+  }
+
+  /**
+   * Sends a draft from the review queue, with the reviewer's edits if any.
+   * It waits its turn behind replies and scheduled sends and for the user to
+   * go idle. Works while monitoring is stopped using the last saved
+   * configuration.
+   */
+  async approveDraft(id: string, editedReply?: string): Promise<QueuedReply> {
+    const config = this.config ?? (await readJson<AgentConfig | null>(AGENT_CONFIG_FILE, null));
+    if (!config) {
+      throw new Error("no agent configuration found, start monitoring once from the UI");
+    }
+    const hold = (d: QueuedReply) => getStoredReplyHold(config, { app: d.app, chat: d.chat ?? null });
+    const sent = await this.runSend(
+      "approved draft",
+      () => approveDraft(id, (d) => this.sendDraft(d), editedReply, hold),
+      config
+    );
+    if (!sent) {
+      throw new Error("the user stayed active or monitoring was paused, the draft was not sent");
+    }
+    const draft = sent.result;
+    if (draft.status === "pending") {
+      this.addLog(`Approved draft held: ${draft.error}`);
+      throw new Error(`the draft was not sent, ${draft.error}`);
+    }
+    updateDraftReply(draft.id, draft.status, draft.reply);
+    this.addLog(draft.status === "sent" ? "Approved draft sent" : `Approved draft failed: ${draft.error}`);
+    return draft;
+  }
+
+  async rejectDraft(id: string): Promise<QueuedReply> {
+    const draft = await rejectDraft(id);
+    updateDraftReply(draft.id, draft.status);
+    this.addLog("Draft rejected");
+    return draft;
+  }
+
+  /**
+   * Runs a send that starts outside the monitor loop, like approvals and
+   * pipeline runs. It waits its turn behind replies in progress and for the
+   * user to go idle. Returns null without sending when monitoring was
+   * stopped meanwhile, is paused, or the user stayed active.
+   */
+  async runSend<T>(reason: string, send: () => Promise<T>, config = this.config): Promise<{ result: T } | null> {
+    const session = this.session;
+    // waitForIdle lets a paused agent through, a pause (e.g. during a call) must hold these sends too
+    const paused = () => this.machine.state === "paused";
+    return this.enqueue(async () => {
+      if (paused() || !(await this.waitForIdle(session, undefined, config)) || paused()) return null;
+      this.transition(session, "sending", reason);
+      try {
+        return { result: await send() };
+      } finally {
+        this.settle(session);
+      }
+    });
+  }
+
+  private async sendDraft(draft: QueuedReply) {
+    const config = this.config ?? (await readJson<AgentConfig | null>(AGENT_CONFIG_FILE, null));
+    if (!config) {
+      throw new Error("no agent configuration found, start monitoring once from the UI");
+    }
+    await sendStoredReply(config, draft, (message) => this.addLog(message));
+  }
+
+  private async processExpiredDrafts(session: number) {
+    if (!this.config) return;
+
+    try {
+      const policy = this.config.reviewPolicy ?? DEFAULT_REVIEW_POLICY;
+      const config = this.config;
+      const expired = await processExpiredDrafts(
+        policy,
+        (d) => {
+          this.transition(session, "sending", "expired draft");
+          return this.sendDraft(d);
+        },
+        (d) => getStoredReplyHold(config, { app: d.app, chat: d.chat ?? null })
+      );
+      this.settle(session);
+      for (const draft of expired) {
+        if (draft.status === "pending") {
+          this.addLog(`Timed out draft held: ${draft.error}`);
+          continue;
+        }
+        updateDraftReply(draft.id, draft.status, draft.reply);
+        this.addLog(`Draft timed out and was ${draft.status === "expired" ? "discarded" : draft.status}`);
+      }
+    } catch (err) {
+      console.error("agent: failed to process expired drafts:", err);
+    }
+  }
+
+  /**
+   * Sends scheduled replies whose time has come. Runs once per monitoring
+   * cycle, so sends happen up to one cycle late.
+   */
+  private async processDueReplies(session: number) {
+    const config = this.config;
+    if (!config) return;
+
+    try {
+      const due = await processDueReplies(
+        (reply) => {
+          this.transition(session, "sending", "scheduled reply");
+          return sendStoredReply(config, reply, (message) => this.addLog(message));
+        },
+        (reply) => getStoredReplyHold(config, reply)
+      );
+      this.settle(session);
+      for (const reply of due) {
+        if (reply.status === "scheduled") {
+          this.addLog(`Scheduled reply to ${reply.contact ?? reply.chat ?? "chat"} held: ${reply.holdReason}`);
+          continue;
+        }
+        updateDraftReply(reply.id, reply.status === "sent" ? "sent" : "failed", reply.reply);
+        this.addLog(
+          reply.status === "sent"
+            ? `Scheduled reply sent to ${reply.contact ?? reply.chat ?? "chat"}`
+            : `Scheduled reply failed: ${reply.error}`
+        );
+      }
+    } catch (err) {
+      console.error("agent: failed to process scheduled replies:", err);
+    }
+  }
+
+  async cancelScheduledReply(id: string): Promise<ScheduledReply> {
+    const reply = await cancelScheduledReply(id);
+    updateDraftReply(reply.id, "rejected");
+    this.addLog("Scheduled reply cancelled");
+    return reply;
+  }
+
+  private addLog(message: string) {
+    const timeString = new Date().toLocaleTimeString();
+    console.log(`[${timeString}] ${message}`);
+    this.logs = [...this.logs, { time: timeString, message }].slice(-MAX_LOGS);
+  }
+
+  private async detectNewMessages(text: string, windowName?: string) {
+    if (!text || text === this.lastOcrText) {
+      console.log("agent: text unchanged or empty, skipping detection");
+      return;
+    }
+    if (!this.config) {
+      this.addLog("Start monitoring to detect messages");
+      return;
+    }
+
+    this.lastOcrText = text;
+
+    const chatTitle = parseChatTitle(text, this.config.app, windowName);
+    // Our own replies come back in the next frames and must not be answered
+    const { messages, echoes } = markSelfEchoes(
+      parseConversation(text, this.config.app, { selfName: this.config.selfName }),
+      listRecentSentTexts({ app: this.config.app, chat: chatTitle }, ECHO_LOOKBACK)
+    );
+    if (echoes > 0) {
+      console.log(`agent: recognised ${echoes} of our own replies in frame`);
+    }
+    const { appended, confirmed } = this.detector.detect(chatTitle, messages);
+
+    let newMessages = appended;
+    if (confirmed.length > 0) {
+      // Held since a realign, they may have been answered before it
+      const answered = await loadAnsweredMessages();
+      newMessages = [...confirmed.filter((message) => !answered.includes(message.text)), ...appended];
+    }
+
+    if (newMessages.length === 0) {
+      console.log("agent: no new messages in frame");
+      return;
+    }
+
+    const conversation: ConversationKey = { app: this.config.app, chat: chatTitle };
+    this.lastConversation = conversation;
+
+    const burst: PendingMessage[] = [];
+    for (const message of newMessages) {
+      this.lastMessage = message.text;
+      const messageId = recordIncomingMessage(conversation, message);
+      this.addLog(`New message: "${message.text.substring(0, 30)}${message.text.length > 30 ? "..." : ""}"`);
+      burst.push({ parsed: message, messageId, conversation });
+    }
+
+    const settings = this.config.burst ?? DEFAULT_BURST_SETTINGS;
+    this.bursts.add(conversation, burst, settings);
+    this.addLog(`Waiting ${settings.quietSeconds}s for more messages before replying`);
+  }
+
+  /**
+   * Replies once to a whole burst of messages from one conversation. The
+   * newest message decides the contact policy.
+   */
+  private async generateAndSendResponse(burst: PendingMessage[]) {
+    const config = this.config;
+    if (!config || burst.length === 0) return;
+
+    const session = this.session;
+    if (this.machine.state !== "polling") {
+      this.addLog(`Not replying while ${this.machine.state}`);
+      return;
+    }
+
+    const { conversation } = burst[burst.length - 1];
+    this.replyController = new AbortController();
+    const signal = this.replyController.signal;
+
+    try {
+      const outcome = await replyToBurst(config, conversation, burst, true, {
+        log: (entry) => this.addLog(entry),
+        resolveProvider: () => resolveProviderChain(config, (entry) => this.addLog(entry)),
+        onGenerate: (contact) =>
+          this.transition(session, "generating", `${burst.length} message(s) from ${contact ?? "unknown contact"}`),
+        ocrContext: {
+          text: this.lastOcrText,
+          confidence: 0.9,
+        },
+        signal,
+        send: async (chunks, typing) => {
+          if (!(await this.waitForIdle(session, signal))) return null;
+          this.transition(session, "sending");
+          return this.sendResponse(chunks, typing);
+        },
+      });
+
+      if (outcome.reply) {
+        this.addLog(`Response: "${outcome.reply.substring(0, 30)}${outcome.reply.length > 30 ? "..." : ""}"`);
+      }
+      if (outcome.status === "skipped") {
+        this.addLog(`Not replying to ${outcome.contact ?? "unknown contact"}: ${outcome.error}`);
+      } else if (outcome.status === "cancelled") {
+        console.log("agent: monitoring stopped or paused, not sending response");
+      } else if (outcome.status === "queued") {
+        this.addLog("Draft added to review queue");
+      } else if (outcome.scheduled) {
+        const { sendAt, holdReason } = outcome.scheduled;
+        this.addLog(
+          `Reply scheduled for ${new Date(sendAt).toLocaleTimeString()}${holdReason ? ` (${holdReason})` : ""}`
+        );
+      }
+    } catch (err) {
+      console.error("agent: error in generateAndSendResponse:", err);
+      this.addLog(`Error: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      this.replyController = null;
+      this.settle(session);
+    }
+  }
+
+  private async sendResponse(reply: AsyncIterable<string>, typing: TypingSettings): Promise<boolean> {
+    if (!this.config) return false;
+
+    try {
+      await sendReply(this.config, reply, (message) => this.addLog(message), typing);
+      return true;
+    } catch (err) {
+      if (this.replyController?.signal.aborted) {
+        this.addLog("Reply cancelled");
+        return false;
+      }
+      console.error("agent: error in sendResponse:", err);
+      this.addLog(`Error sending: ${err instanceof Error ? err.message : "Unknown error"}`);
+      return false;
+    }
+  }
+
+  private async monitorChat(session: number) {
+    if (session !== this.session || !this.config) {
+      console.log("agent: monitoring session ended, exiting monitorChat");
+      return;
+    }
+
+    this.checkCall();
+    if (this.presenceSettings()) {
+      await this.sampleCursor();
+    }
+
+    // Replies and pauses hold the loop, typing would show up in the next frame anyway
+    if (this.machine.state === "polling") {
+      await this.enqueue(async () => {
+        const policy = this.config?.reviewPolicy ?? DEFAULT_REVIEW_POLICY;
+        const due = (await hasDueReplies()) || (await hasExpiredDraftsToSend(policy));
+        if (due && !(await this.waitForIdle(session))) return;
+        await this.processExpiredDrafts(session);
+        await this.processDueReplies(session);
+      });
+      if (!this.visionConnected) {
+        await this.pollOcr(session);
+      }
+    }
+
+    if (session !== this.session || !this.machine.isActive) {
+      console.log("agent: monitoring was turned off during cycle, stopping");
+      this.streamController?.abort();
+      return;
+    }
+    this.monitoringTimer = setTimeout(() => this.monitorChat(session), MONITOR_INTERVAL_MS);
+  }
+
+  /**
+   * Keeps a Screenpipe event stream open until the session ends, reconnecting
+   * when it drops. `consume` reads the stream and returns when it ends.
+   */
+  private async keepStreaming(
+    session: number,
+    signal: AbortSignal,
+    name: string,
+    fallback: string,
+    consume: (onOpen: () => void) => Promise<void>
+  ) {
+    let failures = 0;
+    while (session === this.session && !signal.aborted) {
+      try {
+        await consume(() => {
+          failures = 0;
+          this.addLog(`Listening to the ${name}`);
+        });
+      } catch (err) {
+        // only the first failure in a row is worth a log entry
+        if (failures++ === 0) {
+          this.addLog(`The ${name} is unavailable, ${fallback}: ${err instanceof Error ? err.message : "Unknown error"}`);
+        }
+      }
+
+      if (session !== this.session || signal.aborted) break;
+      await new Promise((resolve) => setTimeout(resolve, STREAM_RETRY_MS));
+    }
+  }
+
+  // Handles frames as Screenpipe pushes them, the monitor loop polls while the stream is down
+  private async watchVision(session: number, signal: AbortSignal) {
+    const config = this.config;
+    if (!config) return;
+
+    const filter = resolveCaptureFilter(config);
+    await this.keepStreaming(session, signal, "vision stream", "polling instead", async (onOpen) => {
+      const frames = streamVisionFrames({
+        signal,
+        // other apps' frames must not push out a waiting chat frame
+        accept: (frame) => {
+          const rejection = getFrameRejection(frame, filter);
+          if (rejection) {
+            this.logRejection(rejection);
+          }
+          return rejection === null;
+        },
+        onOpen: () => {
+          this.visionConnected = true;
+          onOpen();
+        },
+        onDropped: (count) => console.log(`agent: skipped ${count} frame(s) that arrived while busy`),
+      });
+      try {
+        for await (const frame of frames) {
+          await this.handleFrame(session, frame, filter);
+        }
+      } finally {
+        this.visionConnected = false;
+      }
+    });
+  }
+
+  private async watchAudio(session: number, signal: AbortSignal) {
+    await this.keepStreaming(session, signal, "transcription stream", "voice notes and calls are not tracked", async (onOpen) => {
+      for await (const chunk of streamTranscriptions({ signal, onOpen })) {
+        if (session !== this.session) return;
+        await this.handleTranscription(chunk);
+      }
+    });
+  }
+
+  private async watchPresence(session: number, signal: AbortSignal) {
+    await this.keepStreaming(session, signal, "UI event stream", "only mouse movement is tracked", async (onOpen) => {
+      for await (const event of streamUiEvents({ signal, onOpen })) {
+        if (session !== this.session) return;
+        // our own typing shows up as UI events too
+        if (this.machine.state !== "sending") {
+          this.presence.noteActivity(`activity in ${event.appName || "another app"}`);
+        }
+      }
+    });
+  }
+
+  // Null when sends don't need to wait, also when nothing reaches the real screen
+  private presenceSettings(config = this.config): PresenceSettings | null {
+    if (!config) return null;
+    const presence = { ...DEFAULT_PRESENCE_SETTINGS, ...config.presence };
+    return presence.enabled && resolveActionExecutor(config).live ? presence : null;
+  }
+
+  private async sampleCursor() {
+    if (this.cursorUnavailable || this.machine.state === "sending") return;
+    try {
+      this.presence.noteCursor(await getCursorPosition());
+    } catch {
+      this.cursorUnavailable = true;
+      this.addLog("Cursor position unavailable, presence only comes from UI events");
+    }
+  }
+
+  /**
+   * Holds a send in the waiting state until the user has left mouse and
+   * keyboard alone for the configured time. Returns false when monitoring
+   * stopped or paused in the meantime.
+   */
+  private async waitForIdle(session: number, signal?: AbortSignal, config = this.config): Promise<boolean> {
+    const presence = this.presenceSettings(config);
+    if (!presence) return true;
+
+    if (!this.machine.isActive) {
+      const giveUpAt = Date.now() + MAX_DETACHED_IDLE_WAIT_MS;
+      while (Date.now() < giveUpAt) {
+        await this.sampleCursor();
+        if (this.presence.isIdle(presence.idleSeconds)) return true;
+        await new Promise((resolve) => setTimeout(resolve, IDLE_CHECK_MS));
+      }
+      console.log(`agent: user stayed active (${this.presence.source}), not sending`);
+      return false;
+    }
+
+    let waiting = false;
+    while (session === this.session && !signal?.aborted) {
+      await this.sampleCursor();
+      if (this.presence.isIdle(presence.idleSeconds)) {
+        return true;
+      }
+
+      if (!waiting) {
+        this.transition(session, "waiting", `user active (${this.presence.source})`);
+        waiting = true;
+      }
+      if (this.machine.state !== "waiting") return false;
+      await new Promise((resolve) => setTimeout(resolve, IDLE_CHECK_MS));
+    }
+    return false;
+  }
+
+  private async handleTranscription(chunk: TranscriptionEvent) {
+    const config = this.config;
+    if (!config) return;
+    const audio = { ...DEFAULT_AUDIO_SETTINGS, ...config.audio };
+
+    this.calls.record(chunk);
+    this.checkCall();
+    if (!audio.voiceNotes || !chunk.isFinal || chunk.isInput || this.machine.state !== "polling") return;
+
+    // Speaker audio only counts as a voice note while the chat is in front and shows one, videos,
+    // podcasts or a chat left open on another monitor play through the speakers as well
+    const filter = resolveCaptureFilter(config);
+    if (
+      !this.calls.isPlayback(audio.callWindowSeconds) ||
+      Date.now() - this.lastChatFrameAt > filter.maxFrameAgeSeconds * 1000 ||
+      !this.showsVoiceNote(config.app)
+    ) {
+      return;
+    }
+    const rejection = await getFocusRejection(filter).catch(
+      (err) => `focus check failed: ${err instanceof Error ? err.message : "Unknown error"}`
+    );
+    if (rejection) {
+      console.log(`agent: speaker audio is not a voice note, ${rejection}`);
+      return;
+    }
+    if (this.machine.state !== "polling") return;
+
+    const conversation = this.lastConversation ?? { app: config.app, chat: null };
+    this.voiceNotes.add(conversation, [{ text: chunk.text.trim(), conversation }], VOICE_NOTE_SETTINGS);
+  }
+
+  // Whether the latest chat frame has a voice note bubble in it
+  private showsVoiceNote(app: ChatApp): boolean {
+    const anchors = APP_CONFIGS[app].voiceNoteAnchors;
+    return this.lastOcrText.split(/\r?\n/).some((line) => anchors.some((anchor) => anchor.test(line.trim())));
+  }
+
+  /**
+   * Pauses while microphone and speakers both carry speech and resumes once
+   * they have been quiet for the call window. Resuming by hand during a call
+   * is respected until that call ends.
+   */
+  private checkCall() {
+    const audio = { ...DEFAULT_AUDIO_SETTINGS, ...this.config?.audio };
+    if (!audio.enabled || !audio.pauseOnCalls) return;
+
+    const onCall = this.calls.isOnCall(audio.callWindowSeconds);
+    if (onCall && !this.pausedForCall && this.machine.state !== "paused" && this.machine.can("paused")) {
+      this.pause("call in progress");
+      this.pausedForCall = true;
+    } else if (!onCall && this.pausedForCall) {
+      this.pausedForCall = false;
+      if (this.machine.state === "paused") {
+        this.resume("call ended");
+      }
+    }
+  }
+
+  private logRejection(reason: string) {
+    const now = Date.now();
+    if (reason === this.lastRejection.reason && now - this.lastRejection.at < REJECTION_LOG_INTERVAL_MS) {
+      console.log(`agent: rejected OCR frame: ${reason}`);
+      return;
+    }
+    this.lastRejection = { reason, at: now };
+    this.addLog(`Rejected OCR frame: ${reason}`);
+  }
+
+  private async handleFrame(session: number, frame: VisionFrame, filter: CaptureFilter) {
+    // Frames during a reply or pause are dropped rather than queued, the next one shows the same chat
+    if (session !== this.session || this.machine.state !== "polling") return;
+
+    const rejection = getFrameRejection(frame, filter, Date.now());
+    if (rejection) {
+      this.logRejection(rejection);
+      return;
+    }
+    this.lastChatFrameAt = Date.now();
+    await this.detectNewMessages(frame.text, frame.windowName);
+  }
+
+  private async pollOcr(session: number) {
+    const config = this.config;
+    if (!config) return;
+    this.addLog("Getting OCR data...");
+
+    try {
+      const filter = resolveCaptureFilter(config);
+      const result = await pipe.queryScreenpipe(buildOcrQuery(filter, { limit: 1 }));
+      this.ocrErrors = 0;
+
+      const item = result?.data?.[0];
+      if (!item) {
+        this.addLog("No OCR data available");
+      } else if (item.type !== "OCR" || !item.content.text) {
+        this.addLog("No text content in OCR data");
+      } else {
+        const rejection = getFrameRejection(item.content, filter, Date.now());
+        if (rejection) {
+          this.addLog(`Rejected OCR frame: ${rejection}`);
+        } else {
+          this.addLog(`OCR text captured (${item.content.text.length} chars)`);
+          this.lastChatFrameAt = Date.now();
+          await this.detectNewMessages(item.content.text, item.content.windowName);
+        }
+      }
+    } catch (err) {
+      console.error("agent: error in OCR processing:", err);
+      const message = err instanceof Error ? err.message : "Unknown error";
+      this.addLog(`OCR error: ${message}`);
+      if (++this.ocrErrors >= MAX_OCR_ERRORS) {
+        this.transition(session, "error", `OCR failed ${this.ocrErrors} times in a row: ${message}`);
+      }
+    }
+  }
+}
+
+// Keep a single agent across hot reloads in development
+const globalForAgent = globalThis as unknown as { chatAgent?: ChatAgent };
+
+export const chatAgent = globalForAgent.chatAgent ?? new ChatAgent();
+
+globalForAgent.chatAgent = chatAgent;
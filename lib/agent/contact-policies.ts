@@ -0,0 +1,143 @@
+import { readJson, writeJson } from "./storage";
+import type { AgentConfig, ContactMode, ContactPolicy, MessageContact } from "./types";
+
+const CONTACT_POLICIES_FILE = "contact-policies.json";
+const REPLY_COUNTS_FILE = "contact-reply-counts.json";
+
+export interface ContactPolicyStore {
+  policies: ContactPolicy[];
+  // applied to contacts without a policy, "ignore" turns the table into an allowlist
+  defaultMode: ContactMode;
+}
+
+interface ReplyCounts {
+  // local date the counts belong to, e.g. "2024-03-12"
+  date: string;
+  counts: Record<string, number>;
+}
+
+export interface ReplyDecision {
+  action: "skip" | "draft" | "send";
+  // name of the contact as shown in the chat, used in logs and drafts
+  contact: string | null;
+  policy: ContactPolicy | null;
+  reason?: string;
+}
+
+export const normalizeContact = (name: string) => name.trim().replace(/^[#@~]\s*/, "").toLowerCase();
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+// Keeps only the overrides that were actually set, so the rest fall back to the global settings
+function cleanTypingOverrides(typing: ContactPolicy["typing"]): ContactPolicy["typing"] {
+  const entries = Object.entries(typing ?? {}).filter(([, value]) => typeof value === "number" && value >= 0);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+export async function loadContactPolicies(): Promise<ContactPolicyStore> {
+  return readJson<ContactPolicyStore>(CONTACT_POLICIES_FILE, { policies: [], defaultMode: "auto" });
+}
+
+/**
+ * Creates or updates a policy. Contact names are unique, saving a name that
+ * already has a policy replaces it.
+ */
+export async function saveContactPolicy(
+  input: Omit<ContactPolicy, "id" | "updatedAt"> & { id?: string }
+): Promise<ContactPolicy> {
+  const store = await loadContactPolicies();
+  const policy: ContactPolicy = {
+    ...input,
+    id: input.id || crypto.randomUUID(),
+    contact: input.contact.trim(),
+    persona: input.persona?.trim() || undefined,
+    dailyReplyCap: Math.max(Math.floor(input.dailyReplyCap) || 0, 0),
+    typing: cleanTypingOverrides(input.typing),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const key = normalizeContact(policy.contact);
+  store.policies = [
+    ...store.policies.filter((p) => p.id !== policy.id && normalizeContact(p.contact) !== key),
+    policy,
+  ];
+  await writeJson(CONTACT_POLICIES_FILE, store);
+  return policy;
+}
+
+export async function deleteContactPolicy(id: string): Promise<void> {
+  const store = await loadContactPolicies();
+  store.policies = store.policies.filter((p) => p.id !== id);
+  await writeJson(CONTACT_POLICIES_FILE, store);
+}
+
+export async function setDefaultContactMode(mode: ContactMode): Promise<void> {
+  const store = await loadContactPolicies();
+  store.defaultMode = mode;
+  await writeJson(CONTACT_POLICIES_FILE, store);
+}
+
+/**
+ * Finds the policy for a message. The chat title wins over the sender so a
+ * group chat policy covers everyone in it.
+ */
+export function findContactPolicy(store: ContactPolicyStore, contact: MessageContact): ContactPolicy | null {
+  for (const name of [contact.chatTitle, contact.sender]) {
+    if (!name) continue;
+    const key = normalizeContact(name);
+    const policy = store.policies.find((p) => normalizeContact(p.contact) === key);
+    if (policy) return policy;
+  }
+  return null;
+}
+
+async function loadReplyCounts(): Promise<ReplyCounts> {
+  const counts = await readJson<ReplyCounts>(REPLY_COUNTS_FILE, { date: today(), counts: {} });
+  return counts.date === today() ? counts : { date: today(), counts: {} };
+}
+
+/**
+ * Decides what to do with an incoming message before any reply is generated.
+ * Review mode (or a queueing pipeline run) downgrades "send" to "draft", a
+ * contact policy can only make things stricter. Messages whose chat and
+ * sender could not be read are skipped, they might come from a contact whose
+ * policy forbids replies.
+ */
+export async function decideReply(
+  config: AgentConfig,
+  contact: MessageContact,
+  sendByDefault: boolean
+): Promise<ReplyDecision> {
+  const store = await loadContactPolicies();
+  const policy = findContactPolicy(store, contact);
+  const name = policy?.contact ?? contact.chatTitle ?? contact.sender;
+  const mode = policy?.mode ?? store.defaultMode;
+
+  if (mode === "ignore") {
+    return { action: "skip", contact: name, policy, reason: policy ? "contact is ignored" : "contact has no policy" };
+  }
+
+  if (!name) {
+    return { action: "skip", contact: null, policy, reason: "contact not identified" };
+  }
+
+  if (policy && policy.dailyReplyCap > 0) {
+    const { counts } = await loadReplyCounts();
+    if ((counts[policy.id] ?? 0) >= policy.dailyReplyCap) {
+      return { action: "skip", contact: name, policy, reason: `daily cap of ${policy.dailyReplyCap} reached` };
+    }
+  }
+
+  const send = mode === "auto" && sendByDefault && config.replyMode !== "review";
+  return { action: send ? "send" : "draft", contact: name, policy };
+}
+
+/**
+ * Counts a sent or drafted reply towards the contact's daily cap.
+ */
+export async function recordContactReply(policy: ContactPolicy | null): Promise<void> {
+  if (!policy || policy.dailyReplyCap <= 0) return;
+  const replyCounts = await loadReplyCounts();
+  replyCounts.counts[policy.id] = (replyCounts.counts[policy.id] ?? 0) + 1;
+  await writeJson(REPLY_COUNTS_FILE, replyCounts);
+}
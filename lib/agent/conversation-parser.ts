@@ -0,0 +1,203 @@
+import type { ChatApp, ParsedMessage } from "./types";
+
+export interface ParseOptions {
+  // Display name of the account the agent replies as, used to spot our own messages
+  selfName?: string;
+}
+
+interface ParserProfile {
+  // UI chrome that OCR picks up around the conversation (placeholders, banners...)
+  noisePatterns: RegExp[];
+  daySeparator: RegExp;
+  parseLines: (lines: string[], options: ParseOptions) => ParsedMessage[];
+  // name of the open chat, from the OCR lines or the window title
+  parseTitle: (lines: string[], windowName?: string) => string | null;
+}
+
+const WEEKDAYS = "monday|tuesday|wednesday|thursday|friday|saturday|sunday";
+const MONTHS = "january|february|march|april|may|june|july|august|september|october|november|december";
+
+const TIME = String.raw`\d{1,2}[:.]\d{2}(?:\s?[ap]\.?m\.?)?`;
+const READ_TICKS = String.raw`[✓✔√]{1,2}|\/\/|vv`;
+
+// WhatsApp bubbles end with "12:30" or "12:30 pm", outgoing ones add read ticks
+const WHATSAPP_BUBBLE_END = new RegExp(
+  String.raw`^(?<text>.*?)\s*(?:\(?edited\)?\s*)?(?<time>${TIME})\s*(?<ticks>${READ_TICKS})?$`,
+  "i"
+);
+// Status line under the chat title, everything above it is header rather than messages
+const WHATSAPP_CHAT_STATUS = /^(online|typing\.{0,3}|last seen .*|click here for (contact|group) info)$/i;
+// Unsaved contacts in group chats are shown as "~ Name" above their bubble
+const WHATSAPP_SENDER = /^~\s*(?<sender>.+)$/;
+
+// "Name — Today at 10:42 AM" or "Name 03/12/2024 10:42 AM"
+const DISCORD_HEADER = new RegExp(
+  String.raw`^(?<sender>.+?)\s*[—–-]?\s*(?<time>(?:today|yesterday) at ${TIME}|\d{1,2}\/\d{1,2}\/\d{2,4},?\s+${TIME})$`,
+  "i"
+);
+// Follow-up messages in a group only show the time on hover, OCR sometimes catches it
+const DISCORD_CONTINUATION = new RegExp(String.raw`^\[?(?<time>${TIME})\]?\s+(?<text>.+)$`, "i");
+
+function parseWhatsAppLines(lines: string[]): ParsedMessage[] {
+  const messages: ParsedMessage[] = [];
+  let buffer: string[] = [];
+  let sender: string | null = null;
+
+  for (const line of lines) {
+    if (WHATSAPP_CHAT_STATUS.test(line)) {
+      buffer = [];
+      continue;
+    }
+
+    const senderMatch = line.match(WHATSAPP_SENDER);
+    if (senderMatch?.groups) {
+      buffer = [];
+      sender = senderMatch.groups.sender.trim();
+      continue;
+    }
+
+    const endMatch = line.match(WHATSAPP_BUBBLE_END);
+    if (!endMatch?.groups) {
+      buffer.push(line);
+      continue;
+    }
+
+    const text = [...buffer, endMatch.groups.text].join("\n").trim();
+    buffer = [];
+    if (!text) continue;
+
+    const outgoing = !!endMatch.groups.ticks;
+    messages.push({
+      sender: outgoing ? null : sender,
+      text,
+      time: endMatch.groups.time,
+      direction: outgoing ? "outgoing" : "incoming",
+    });
+    sender = null;
+  }
+
+  return messages;
+}
+
+// The chat title sits right above the status line in the conversation header
+function parseWhatsAppTitle(lines: string[]): string | null {
+  const statusIndex = lines.findIndex((line) => WHATSAPP_CHAT_STATUS.test(line));
+  return statusIndex > 0 ? lines[statusIndex - 1] : null;
+}
+
+function parseDiscordLines(lines: string[], options: ParseOptions): ParsedMessage[] {
+  const messages: ParsedMessage[] = [];
+  const selfName = options.selfName?.trim().toLowerCase();
+  let current: ParsedMessage | null = null;
+
+  const directionOf = (sender: string | null) =>
+    selfName && sender?.toLowerCase() === selfName ? "outgoing" : "incoming";
+
+  const flush = () => {
+    if (current && current.text) {
+      messages.push(current);
+    }
+    current = null;
+  };
+
+  for (const line of lines) {
+    const header = line.match(DISCORD_HEADER);
+    if (header?.groups) {
+      flush();
+      const sender = header.groups.sender.trim();
+      current = { sender, text: "", time: header.groups.time, direction: directionOf(sender) };
+      continue;
+    }
+
+    const text = line.replace(/\s*\(edited\)$/i, "");
+    const continuation = text.match(DISCORD_CONTINUATION);
+    const previous: ParsedMessage | null = current;
+    if (continuation?.groups && previous) {
+      flush();
+      current = {
+        sender: previous.sender,
+        text: continuation.groups.text,
+        time: continuation.groups.time,
+        direction: previous.direction,
+      };
+      continue;
+    }
+
+    if (!current) {
+      // Text above the first visible header belongs to a message scrolled out of view
+      continue;
+    }
+    current.text = current.text ? `${current.text}\n${text}` : text;
+  }
+
+  flush();
+  return messages;
+}
+
+// Window titles look like "#general | Server - Discord", "@alice - Discord" or "Discord | #general | Server"
+function parseDiscordTitle(_lines: string[], windowName?: string): string | null {
+  if (!windowName) return null;
+  const title = windowName
+    .replace(/^discord\s*\|\s*/i, "")
+    .replace(/\s*-\s*discord$/i, "")
+    .split("|")[0]
+    .trim();
+  return title || null;
+}
+
+export const PARSER_PROFILES: Record<ChatApp, ParserProfile> = {
+  whatsapp: {
+    noisePatterns: [
+      /^type a message$/i,
+      /^search( or start( a)? new chat)?$/i,
+      /end-to-end encrypted/i,
+      /^\d+ unread messages?$/i,
+    ],
+    daySeparator: new RegExp(
+      String.raw`^(today|yesterday|${WEEKDAYS}|\d{1,2}\/\d{1,2}\/\d{2,4}|\d{1,2}\s+(${MONTHS})\s+\d{4}|(${MONTHS})\s+\d{1,2},\s+\d{4})$`,
+      "i"
+    ),
+    parseLines: parseWhatsAppLines,
+    parseTitle: parseWhatsAppTitle,
+  },
+  discord: {
+    noisePatterns: [
+      /^message [#@].+$/i,
+      /^new$/i,
+      /^.+ is typing\.{0,3}$/i,
+      /^(jump to present|mark as read)$/i,
+    ],
+    daySeparator: new RegExp(String.raw`^(${MONTHS})\s+\d{1,2},\s+\d{4}$`, "i"),
+    parseLines: parseDiscordLines,
+    parseTitle: parseDiscordTitle,
+  },
+};
+
+/**
+ * Turns raw OCRContent.text from a chat window into ordered message records.
+ * Day separators and UI chrome are dropped before the app-specific parser
+ * groups the remaining lines into messages.
+ */
+export function parseConversation(text: string, app: ChatApp, options: ParseOptions = {}): ParsedMessage[] {
+  return PARSER_PROFILES[app].parseLines(cleanLines(text, app), options);
+}
+
+/**
+ * Name of the open chat (contact, group or channel), or null when neither
+ * the OCR text nor the window title shows it.
+ */
+export function parseChatTitle(text: string, app: ChatApp, windowName?: string): string | null {
+  return PARSER_PROFILES[app].parseTitle(cleanLines(text, app), windowName);
+}
+
+function cleanLines(text: string, app: ChatApp): string[] {
+  const profile = PARSER_PROFILES[app];
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) =>
+      line &&
+      !profile.daySeparator.test(line) &&
+      !profile.noisePatterns.some((pattern) => pattern.test(line))
+    );
+}
@@ -0,0 +1,339 @@
+import type Database from "better-sqlite3";
+import { getDb } from "./database";
+import type {
+  ChatApp,
+  ChatMessage,
+  ConversationKey,
+  ConversationSummary,
+  DraftStatus,
+  MemorySnippet,
+  ParsedMessage,
+  ReplyRecord,
+} from "./types";
+
+// How many earlier messages go into a prompt
+export const DEFAULT_HISTORY_WINDOW = 20;
+
+// Messages from a chat whose title OCR could not read share this conversation
+const UNKNOWN_CHAT = "unknown chat";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    app TEXT NOT NULL,
+    chat_key TEXT NOT NULL,
+    title TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (app, chat_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS participants (
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    PRIMARY KEY (conversation_id, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    direction TEXT NOT NULL,
+    sender TEXT,
+    text TEXT NOT NULL,
+    -- time shown next to the bubble, as read by OCR
+    chat_time TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS messages_by_conversation ON messages (conversation_id, id);
+
+  CREATE TABLE IF NOT EXISTS replies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    -- the incoming message the reply answers
+    message_id INTEGER REFERENCES messages(id) ON DELETE SET NULL,
+    draft_id TEXT UNIQUE,
+    text TEXT NOT NULL,
+    model TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- memory snippets that were put into the reply's prompt
+  CREATE TABLE IF NOT EXISTS reply_snippets (
+    reply_id INTEGER NOT NULL REFERENCES replies(id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    label TEXT NOT NULL,
+    text TEXT NOT NULL,
+    score REAL NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reply_snippets_by_reply ON reply_snippets (reply_id);
+`;
+
+let schemaReady = false;
+
+function conversationDb(): Database.Database {
+  const connection = getDb();
+  if (!schemaReady) {
+    connection.exec(SCHEMA);
+    schemaReady = true;
+  }
+  return connection;
+}
+
+const chatKeyOf = (chat: string | null) => chat?.trim().toLowerCase() || UNKNOWN_CHAT;
+
+function findConversationId(key: ConversationKey): number | null {
+  const row = conversationDb()
+    .prepare("SELECT id FROM conversations WHERE app = ? AND chat_key = ?")
+    .get(key.app, chatKeyOf(key.chat)) as { id: number } | undefined;
+  return row?.id ?? null;
+}
+
+function ensureConversation(key: ConversationKey, now: string): number {
+  const db = conversationDb();
+  const title = key.chat?.trim() || UNKNOWN_CHAT;
+  const existing = findConversationId(key);
+  if (existing !== null) {
+    db.prepare("UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?").run(title, now, existing);
+    return existing;
+  }
+
+  const result = db
+    .prepare("INSERT INTO conversations (app, chat_key, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+    .run(key.app, chatKeyOf(key.chat), title, now, now);
+  return Number(result.lastInsertRowid);
+}
+
+function insertMessage(
+  conversationId: number,
+  message: Pick<ParsedMessage, "direction" | "sender" | "text" | "time">,
+  now: string
+): number {
+  const result = conversationDb()
+    .prepare(
+      `INSERT INTO messages (conversation_id, direction, sender, text, chat_time, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(conversationId, message.direction, message.sender, message.text, message.time, now);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Stores a message read from the chat and returns its id, which replies
+ * and history lookups refer to.
+ */
+export function recordIncomingMessage(key: ConversationKey, message: ParsedMessage): number {
+  const db = conversationDb();
+  const now = new Date().toISOString();
+
+  return db.transaction(() => {
+    const conversationId = ensureConversation(key, now);
+    if (message.sender) {
+      db.prepare(
+        `INSERT INTO participants (conversation_id, name, last_seen_at) VALUES (?, ?, ?)
+         ON CONFLICT (conversation_id, name) DO UPDATE SET last_seen_at = excluded.last_seen_at`
+      ).run(conversationId, message.sender, now);
+    }
+    return insertMessage(conversationId, message, now);
+  })();
+}
+
+/**
+ * Stores a generated reply and the memory snippets its prompt used. Sent
+ * replies also become outgoing messages so they show up in later history
+ * windows, drafts only once they are sent.
+ */
+export function recordReply(
+  key: ConversationKey,
+  reply: {
+    messageId: number | null;
+    text: string;
+    model: string;
+    status: DraftStatus;
+    draftId?: string;
+    snippets?: MemorySnippet[];
+  }
+): number {
+  const db = conversationDb();
+  const now = new Date().toISOString();
+
+  return db.transaction(() => {
+    const conversationId = ensureConversation(key, now);
+    const result = db.prepare(
+      `INSERT INTO replies (conversation_id, message_id, draft_id, text, model, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(conversationId, reply.messageId, reply.draftId ?? null, reply.text, reply.model, reply.status, now, now);
+    const replyId = Number(result.lastInsertRowid);
+
+    const insertSnippet = db.prepare(
+      "INSERT INTO reply_snippets (reply_id, source, label, text, score) VALUES (?, ?, ?, ?, ?)"
+    );
+    for (const snippet of reply.snippets ?? []) {
+      insertSnippet.run(replyId, snippet.source, snippet.label, snippet.text, snippet.score);
+    }
+
+    if (reply.status === "sent") {
+      insertMessage(conversationId, { direction: "outgoing", sender: null, text: reply.text, time: null }, now);
+    }
+    return replyId;
+  })();
+}
+
+/**
+ * Mirrors a review queue decision on the stored reply.
+ */
+export function updateDraftReply(draftId: string, status: DraftStatus, text?: string): void {
+  const db = conversationDb();
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    const reply = db
+      .prepare("SELECT id, conversation_id, text FROM replies WHERE draft_id = ?")
+      .get(draftId) as { id: number; conversation_id: number; text: string } | undefined;
+    if (!reply) return;
+
+    const finalText = text ?? reply.text;
+    db.prepare("UPDATE replies SET status = ?, text = ?, updated_at = ? WHERE id = ?")
+      .run(status, finalText, now, reply.id);
+
+    if (status === "sent") {
+      insertMessage(reply.conversation_id, { direction: "outgoing", sender: null, text: finalText, time: null }, now);
+      db.prepare("UPDATE conversations SET updated_at = ? WHERE id = ?").run(now, reply.conversation_id);
+    }
+  })();
+}
+
+/**
+ * Texts of the latest replies that went out in a conversation, newest first,
+ * so our own messages can be recognised when OCR reads them back.
+ */
+export function listRecentSentTexts(key: ConversationKey, limit: number): string[] {
+  const conversationId = findConversationId(key);
+  if (conversationId === null) return [];
+
+  const rows = conversationDb()
+    .prepare(
+      `SELECT text FROM replies
+       WHERE conversation_id = ? AND status = 'sent'
+       ORDER BY updated_at DESC, id DESC LIMIT ?`
+    )
+    .all(conversationId, limit) as { text: string }[];
+  return rows.map((row) => row.text);
+}
+
+/**
+ * Latest messages of a conversation in chronological order, as prompt
+ * history. beforeMessageId leaves out the message being replied to and
+ * anything that arrived after it.
+ */
+export function getHistoryWindow(
+  key: ConversationKey,
+  limit = DEFAULT_HISTORY_WINDOW,
+  beforeMessageId?: number
+): ChatMessage[] {
+  const conversationId = findConversationId(key);
+  if (conversationId === null) return [];
+
+  const rows = conversationDb()
+    .prepare(
+      `SELECT direction, text, created_at FROM messages
+       WHERE conversation_id = ? AND id < ?
+       ORDER BY id DESC LIMIT ?`
+    )
+    .all(conversationId, beforeMessageId ?? Number.MAX_SAFE_INTEGER, limit) as {
+      direction: string;
+      text: string;
+      created_at: string;
+    }[];
+
+  return rows.reverse().map((row) => ({
+    role: row.direction === "outgoing" ? "assistant" : "user",
+    content: row.text,
+    timestamp: new Date(row.created_at).getTime(),
+  }));
+}
+
+/**
+ * Messages stored after the given id, oldest first, for the memory indexer.
+ */
+export function listMessagesAfter(afterId: number, limit: number): { id: number; chat: string; text: string }[] {
+  return conversationDb()
+    .prepare(
+      `SELECT m.id, c.title AS chat, m.text FROM messages m
+       JOIN conversations c ON c.id = m.conversation_id
+       WHERE m.id > ?
+       ORDER BY m.id LIMIT ?`
+    )
+    .all(afterId, limit) as { id: number; chat: string; text: string }[];
+}
+
+export function listConversations(app?: ChatApp): ConversationSummary[] {
+  const rows = conversationDb()
+    .prepare(
+      `SELECT c.id, c.app, c.title, c.updated_at,
+        (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+        (SELECT GROUP_CONCAT(p.name, char(31)) FROM participants p WHERE p.conversation_id = c.id) AS participants
+       FROM conversations c
+       WHERE ? IS NULL OR c.app = ?
+       ORDER BY c.updated_at DESC`
+    )
+    .all(app ?? null, app ?? null) as {
+      id: number;
+      app: ChatApp;
+      title: string;
+      updated_at: string;
+      message_count: number;
+      participants: string | null;
+    }[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    app: row.app,
+    title: row.title,
+    participants: row.participants ? row.participants.split("\u001f") : [],
+    messageCount: row.message_count,
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Most recent replies across all chats, newest first, with their snippets.
+ */
+export function listRecentReplies(limit = 20): ReplyRecord[] {
+  const db = conversationDb();
+  const rows = db
+    .prepare(
+      `SELECT r.id, c.app, c.title, m.text AS message, r.text, r.model, r.status, r.created_at
+       FROM replies r
+       JOIN conversations c ON c.id = r.conversation_id
+       LEFT JOIN messages m ON m.id = r.message_id
+       ORDER BY r.id DESC LIMIT ?`
+    )
+    .all(limit) as {
+      id: number;
+      app: ChatApp;
+      title: string;
+      message: string | null;
+      text: string;
+      model: string;
+      status: DraftStatus;
+      created_at: string;
+    }[];
+
+  const selectSnippets = db.prepare(
+    "SELECT source, label, text, score FROM reply_snippets WHERE reply_id = ? ORDER BY score DESC"
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    app: row.app,
+    chat: row.title,
+    message: row.message,
+    reply: row.text,
+    model: row.model,
+    status: row.status,
+    createdAt: row.created_at,
+    snippets: selectSnippets.all(row.id) as MemorySnippet[],
+  }));
+}
@@ -0,0 +1,24 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+import { dataPath } from "./storage";
+
+const DB_FILE = "conversations.db";
+
+const globalForDb = globalThis as unknown as { agentDb?: Database.Database };
+
+/**
+ * Shared connection to the agent's SQLite file, opened lazily so routes that
+ * never touch it do not create the file. Each store creates its own tables.
+ */
+export function getDb(): Database.Database {
+  if (!globalForDb.agentDb) {
+    const file = dataPath(DB_FILE);
+    mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    globalForDb.agentDb = db;
+  }
+  return globalForDb.agentDb;
+}
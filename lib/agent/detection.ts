@@ -0,0 +1,91 @@
+import { FrameDiffer, type FrameDifferOptions } from "./frame-diff";
+import { readJson, writeJson } from "./storage";
+import type { ParsedMessage } from "./types";
+
+const ANSWERED_FILE = "answered-messages.json";
+const MAX_ANSWERED = 200;
+
+/**
+ * Incoming messages after our last outgoing bubble are the ones still
+ * waiting for a reply.
+ */
+export function findUnansweredMessages(messages: ParsedMessage[]): ParsedMessage[] {
+  let lastOutgoing = -1;
+  messages.forEach((message, index) => {
+    if (message.direction === "outgoing") lastOutgoing = index;
+  });
+  return messages.slice(lastOutgoing + 1).filter((message) => message.direction === "incoming");
+}
+
+export async function loadAnsweredMessages(): Promise<string[]> {
+  return readJson<string[]>(ANSWERED_FILE, []);
+}
+
+export async function rememberAnsweredMessage(message: string): Promise<void> {
+  const answered = await loadAnsweredMessages();
+  if (answered.includes(message)) return;
+  await writeJson(ANSWERED_FILE, [...answered, message].slice(-MAX_ANSWERED));
+}
+
+/**
+ * Picks the incoming messages to reply to from consecutive frames of the
+ * chat window. Messages appended below the previous frame are new. A frame
+ * that can't be aligned (first frame, switched chat, large scroll) may show
+ * the history instead of the bottom of the chat, so its unanswered messages
+ * are held until a later frame lines up with it and still shows them as the
+ * newest. When the newest message seen at the bottom of the chat goes out of
+ * view the user scrolled up, nothing is answered until it is back in view.
+ */
+export class UnansweredMessageDetector {
+  private differ: FrameDiffer;
+  private bottom: { chat: string | null; newest: ParsedMessage } | null = null;
+  private scrolledAway = false;
+  private held: ParsedMessage[] = [];
+
+  constructor(options: FrameDifferOptions = {}) {
+    this.differ = new FrameDiffer(options);
+  }
+
+  // Messages from a realigned frame still waiting for a later frame
+  get pending(): ParsedMessage[] {
+    return this.held;
+  }
+
+  reset() {
+    this.differ.reset();
+    this.bottom = null;
+    this.scrolledAway = false;
+    this.held = [];
+  }
+
+  /**
+   * Returns the incoming messages appended since the previous frame, and the
+   * held ones this frame confirmed. Confirmed messages may have been answered
+   * before the realign, callers check them against the answered ones.
+   */
+  detect(chat: string | null, messages: ParsedMessage[]): { appended: ParsedMessage[]; confirmed: ParsedMessage[] } {
+    const none = { appended: [], confirmed: [] };
+    const { appended, realigned } = this.differ.diff(messages);
+    // An empty frame is an OCR miss, whatever is held waits for the next one
+    if (messages.length === 0) return none;
+
+    const bottom = this.bottom;
+    const showsBottom = bottom === null || bottom.chat !== chat || messages.some((message) => this.differ.isSameMessage(bottom.newest, message));
+    if (realigned || this.scrolledAway) {
+      this.scrolledAway = !showsBottom;
+      this.held = showsBottom ? findUnansweredMessages(messages) : [];
+      if (showsBottom) {
+        this.bottom = { chat, newest: messages[messages.length - 1] };
+      }
+      return none;
+    }
+
+    this.bottom = { chat, newest: messages[messages.length - 1] };
+    const held = this.held;
+    this.held = [];
+    const confirmed = findUnansweredMessages(messages).filter(
+      (message) => !appended.includes(message) && held.some((waiting) => this.differ.isSameMessage(waiting, message))
+    );
+    return { appended: appended.filter((message) => message.direction === "incoming"), confirmed };
+  }
+}
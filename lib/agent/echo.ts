@@ -0,0 +1,52 @@
+import { similarity } from "./frame-diff";
+import type { ParsedMessage } from "./types";
+
+// Our replies stay on screen for a while, older ones have scrolled away
+export const ECHO_LOOKBACK = 10;
+
+// The frame differ's default bar for one message read twice by OCR
+const ECHO_SIMILARITY = 0.8;
+// OCR cuts bubbles off at the window edge, a long enough piece of a reply still counts
+const MIN_FRAGMENT_LENGTH = 20;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+export function isEcho(text: string, sent: string): boolean {
+  const message = normalize(text);
+  const reply = normalize(sent);
+  if (!message || !reply) return false;
+  // a couple of OCR errors in "ok" or "sure" would match almost anything
+  if (message.length < MIN_FRAGMENT_LENGTH) return message === reply;
+  return reply.includes(message) || similarity(message, reply) >= ECHO_SIMILARITY;
+}
+
+/**
+ * Marks parsed messages that are our own recent replies in the same
+ * conversation as outgoing. The parser only sees OCR text, so read ticks and
+ * display names are its only cues for which side a bubble is on, and OCR
+ * often drops them. Replies are matched in the order they went out and each
+ * claims at most one message, so a contact repeating "ok" right after us
+ * keeps their own bubble.
+ */
+export function markSelfEchoes(
+  messages: ParsedMessage[],
+  // newest first, as listRecentSentTexts returns them
+  sentTexts: string[]
+): { messages: ParsedMessage[]; echoes: number } {
+  const marked = [...messages];
+  let echoes = 0;
+  let from = 0;
+
+  for (const sent of [...sentTexts].reverse()) {
+    const index = marked.findIndex((message, i) => i >= from && isEcho(message.text, sent));
+    if (index === -1) continue;
+
+    if (marked[index].direction !== "outgoing") {
+      marked[index] = { ...marked[index], sender: null, direction: "outgoing" };
+      echoes++;
+    }
+    from = index + 1;
+  }
+
+  return { messages: marked, echoes };
+}
@@ -0,0 +1,169 @@
+import type { OCRContent } from "@screenpipe/js";
+import WebSocket from "ws";
+
+// The socket behind the browser SDK's event streams, the node SDK doesn't expose it.
+// Event names and fields follow what that SDK reads: ocr_result, ui_frame and transcription
+export const SCREENPIPE_EVENTS_URL = "ws://localhost:3030/ws/events?images=false";
+
+export type VisionFrame = Pick<OCRContent, "text" | "timestamp" | "appName" | "windowName">;
+
+export interface UiEvent {
+  appName: string;
+  timestamp: string;
+}
+
+export interface TranscriptionEvent {
+  text: string;
+  timestamp: string;
+  device: string;
+  // microphone when true, speaker output otherwise
+  isInput: boolean;
+  isFinal: boolean;
+  speaker?: string;
+}
+
+export interface EventStreamOptions {
+  signal: AbortSignal;
+  onOpen?: () => void;
+}
+
+export interface VisionStreamOptions extends EventStreamOptions {
+  // frames that fail this are ignored before they can replace a waiting frame
+  accept?: (frame: VisionFrame) => boolean;
+  // frames replaced by a newer one before the consumer got to them
+  onDropped?: (count: number) => void;
+}
+
+interface ScreenpipeEvent {
+  name?: string;
+  data?: {
+    text?: string;
+    transcription?: string;
+    timestamp?: string;
+    app_name?: string;
+    window_name?: string;
+    // ui_frame events name the app and window without the suffix
+    app?: string;
+    window?: string;
+    device?: string;
+    is_input?: boolean;
+    is_final?: boolean;
+    speaker?: string;
+  };
+}
+
+/**
+ * Yields the events `toItem` maps to something. With `latestOnly` just the
+ * newest waiting item is kept, so a slow consumer skips ahead instead of
+ * working through a backlog. Throws when the connection fails or closes,
+ * returns when the signal aborts.
+ */
+async function* streamEvents<T>(
+  { signal, onOpen }: EventStreamOptions,
+  toItem: (event: ScreenpipeEvent) => T | null,
+  { latestOnly = false, onDropped }: { latestOnly?: boolean; onDropped?: (count: number) => void } = {}
+): AsyncGenerator<T> {
+  const socket = new WebSocket(SCREENPIPE_EVENTS_URL);
+  const waiting: T[] = [];
+  let dropped = 0;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  socket.on("open", () => onOpen?.());
+  socket.on("message", (data) => {
+    let event: ScreenpipeEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    const item = toItem(event);
+    if (item === null) return;
+
+    if (latestOnly && waiting.length > 0) {
+      dropped += waiting.length;
+      waiting.length = 0;
+    }
+    waiting.push(item);
+    notify();
+  });
+  socket.on("error", (err) => {
+    failure ??= new Error(`event stream connection failed: ${err.message}`);
+    notify();
+  });
+  socket.on("close", () => {
+    failure ??= new Error("event stream closed");
+    notify();
+  });
+
+  const abort = () => socket.close();
+  signal.addEventListener("abort", abort);
+  try {
+    while (!signal.aborted) {
+      if (waiting.length === 0 && !failure) {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+
+      if (waiting.length > 0) {
+        if (dropped > 0) {
+          onDropped?.(dropped);
+          dropped = 0;
+        }
+        yield waiting.shift() as T;
+      } else if (failure && !signal.aborted) {
+        throw failure;
+      }
+    }
+  } finally {
+    signal.removeEventListener("abort", abort);
+    socket.close();
+  }
+}
+
+// OCR frames as Screenpipe produces them, only the newest waiting frame is kept
+export function streamVisionFrames({ accept, onDropped, ...options }: VisionStreamOptions): AsyncGenerator<VisionFrame> {
+  return streamEvents(
+    options,
+    (event) => {
+      if (event.name !== "ocr_result" || !event.data?.text) return null;
+      const frame: VisionFrame = {
+        text: event.data.text,
+        timestamp: event.data.timestamp ?? new Date().toISOString(),
+        appName: event.data.app_name ?? "",
+        windowName: event.data.window_name ?? "",
+      };
+      return !accept || accept(frame) ? frame : null;
+    },
+    { latestOnly: true, onDropped }
+  );
+}
+
+// Accessibility captures, they follow focus changes and typing anywhere on screen
+export function streamUiEvents(options: EventStreamOptions): AsyncGenerator<UiEvent> {
+  return streamEvents(options, (event) => {
+    if (event.name !== "ui_frame") return null;
+    return {
+      appName: event.data?.app ?? event.data?.app_name ?? "",
+      timestamp: event.data?.timestamp ?? new Date().toISOString(),
+    };
+  });
+}
+
+// Realtime audio transcription, needs realtime transcription enabled in Screenpipe
+export function streamTranscriptions(options: EventStreamOptions): AsyncGenerator<TranscriptionEvent> {
+  return streamEvents(options, (event) => {
+    if (event.name !== "transcription" || !event.data?.transcription) return null;
+    return {
+      text: event.data.transcription,
+      timestamp: event.data.timestamp ?? new Date().toISOString(),
+      device: event.data.device ?? "",
+      isInput: !!event.data.is_input,
+      isFinal: event.data.is_final ?? true,
+      speaker: event.data.speaker,
+    };
+  });
+}
@@ -0,0 +1,67 @@
+import { pipe } from "@screenpipe/js";
+import { buildOcrQuery, getFrameRejection } from "./capture-filter";
+import { normalizeContact } from "./contact-policies";
+import { parseChatTitle } from "./conversation-parser";
+import type { CaptureFilter, ChatApp } from "./types";
+
+// Screenpipe skips frames while the screen does not change, so the last one can be a while old
+const FOCUS_LOOKBACK_MS = 5 * 60 * 1000;
+const FOCUS_FRAME_LIMIT = 10;
+
+/**
+ * Returns why the chat window may not be the one in front, or null when the
+ * latest frame shows it focused. Frames carry a focused flag on recent
+ * Screenpipe versions, older ones only record the frontmost window, so the
+ * newest frame stands in for it there.
+ */
+export async function getFocusRejection(filter: CaptureFilter): Promise<string | null> {
+  const result = await pipe.queryScreenpipe({
+    contentType: "ocr",
+    limit: FOCUS_FRAME_LIMIT,
+    startTime: new Date(Date.now() - FOCUS_LOOKBACK_MS).toISOString(),
+  });
+  const frames = (result?.data ?? []).flatMap((item) => (item.type === "OCR" ? [item.content] : []));
+  if (frames.length === 0) {
+    return "no recent frame to check which window is in front";
+  }
+
+  const tracksFocus = frames.some((frame) => frame.focused !== undefined);
+  const front = tracksFocus ? frames.find((frame) => frame.focused) : frames[0];
+  if (!front) {
+    return "no recent frame of a focused window";
+  }
+
+  const rejection = getFrameRejection(front, filter);
+  return rejection ? `front window: ${rejection}` : null;
+}
+
+/**
+ * Returns why the chat open in the app may not be `chat`, or null when the
+ * newest frame of the app shows it. Replies that waited a while must not be
+ * typed into whichever chat happens to be open by then.
+ */
+export async function getChatRejection(app: ChatApp, filter: CaptureFilter, chat: string | null): Promise<string | null> {
+  if (!chat) {
+    return "the reply's chat is unknown, so the open chat can't be checked";
+  }
+
+  const now = Date.now();
+  const result = await pipe.queryScreenpipe(
+    buildOcrQuery(filter, {
+      limit: FOCUS_FRAME_LIMIT,
+      startTime: new Date(now - filter.maxFrameAgeSeconds * 1000).toISOString(),
+    })
+  );
+  const frame = (result?.data ?? [])
+    .flatMap((item) => (item.type === "OCR" ? [item.content] : []))
+    .find((content) => !getFrameRejection(content, filter, now));
+  if (!frame) {
+    return `no frame of ${filter.appName} in the last ${filter.maxFrameAgeSeconds}s to check the open chat`;
+  }
+
+  const open = parseChatTitle(frame.text, app, frame.windowName);
+  if (!open) {
+    return "the open chat's title can't be read";
+  }
+  return normalizeContact(open) === normalizeContact(chat) ? null : `"${open}" is open instead of "${chat}"`;
+}
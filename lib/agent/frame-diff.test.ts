@@ -0,0 +1,61 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parseConversation } from "./conversation-parser";
+import { UnansweredMessageDetector } from "./detection";
+import { FrameDiffer } from "./frame-diff";
+import type { ChatApp } from "./types";
+
+// Recorded OCR sequences: the lines of each frame, the messages the differ should report for it
+// and the ones the agent should reply to, none when replyTo is left out
+interface RecordedFrame {
+  ocr: string[];
+  appended: string[];
+  realigned?: boolean;
+  replyTo?: string[];
+}
+
+interface Recording {
+  description: string;
+  app: ChatApp;
+  frames: RecordedFrame[];
+}
+
+const FIXTURES_DIR = path.join(__dirname, "__fixtures__", "frame-diff");
+
+const recordings = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => ({
+    name: path.basename(file, ".json"),
+    recording: JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), "utf8")) as Recording,
+  }));
+
+describe("FrameDiffer", () => {
+  it.each(recordings)("$name", ({ recording }) => {
+    const differ = new FrameDiffer();
+
+    recording.frames.forEach((frame, index) => {
+      const messages = parseConversation(frame.ocr.join("\n"), recording.app);
+      const { appended, realigned } = differ.diff(messages);
+
+      const context = `${recording.description}, frame ${index + 1}`;
+      expect(appended.map((message) => message.text.replace(/\s+/g, " ")), context).toEqual(frame.appended);
+      expect(realigned, context).toBe(frame.realigned ?? false);
+    });
+  });
+});
+
+describe("UnansweredMessageDetector", () => {
+  it.each(recordings)("$name", ({ recording }) => {
+    const detector = new UnansweredMessageDetector();
+
+    recording.frames.forEach((frame, index) => {
+      const messages = parseConversation(frame.ocr.join("\n"), recording.app);
+      const { appended, confirmed } = detector.detect("chat", messages);
+
+      const context = `${recording.description}, frame ${index + 1}`;
+      const replyTo = [...confirmed, ...appended].map((message) => message.text.replace(/\s+/g, " "));
+      expect(replyTo, context).toEqual(frame.replyTo ?? []);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import levenshtein from "js-levenshtein";
+import type { ParsedMessage } from "./types";
+
+export interface FrameDiff {
+  // Messages that appeared below the last message of the previous frame
+  appended: ParsedMessage[];
+  // True when the frame could not be aligned with the previous one (first
+  // frame, switched chat, large scroll), in which case nothing is reported
+  realigned: boolean;
+}
+
+export interface FrameDifferOptions {
+  // Minimum normalized similarity for two OCR'd messages to count as the same
+  similarityThreshold?: number;
+  // How many trailing messages of the previous frame may be missing or garbled
+  maxDroppedMessages?: number;
+}
+
+// Consecutive matches needed before an alignment is trusted
+const MIN_ALIGNED_RUN = 2;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Similarity between 0 and 1 based on Levenshtein distance, tolerant of the
+ * few-character errors OCR introduces between frames.
+ */
+export function similarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  const maxLength = Math.max(left.length, right.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshtein(left, right) / maxLength;
+}
+
+/**
+ * Compares consecutive OCR snapshots of a conversation and reports only the
+ * messages appended since the previous snapshot. Only the previous frame is
+ * kept, so memory stays bounded however long monitoring runs.
+ */
+export class FrameDiffer {
+  private previous: ParsedMessage[] = [];
+  private similarityThreshold: number;
+  private maxDroppedMessages: number;
+
+  constructor(options: FrameDifferOptions = {}) {
+    this.similarityThreshold = options.similarityThreshold ?? 0.8;
+    this.maxDroppedMessages = options.maxDroppedMessages ?? 2;
+  }
+
+  reset() {
+    this.previous = [];
+  }
+
+  diff(current: ParsedMessage[]): FrameDiff {
+    // An empty frame is an OCR miss, keep comparing against the last good one
+    if (current.length === 0) {
+      return { appended: [], realigned: false };
+    }
+
+    const previous = this.previous;
+    this.previous = current;
+
+    if (previous.length === 0) {
+      return { appended: [], realigned: true };
+    }
+
+    for (let dropped = 0; dropped <= this.maxDroppedMessages; dropped++) {
+      const anchor = previous.length - 1 - dropped;
+      if (anchor < 0) break;
+
+      const matchIndex = this.findAnchor(previous, anchor, current);
+      if (matchIndex === null) continue;
+
+      // Trailing messages we skipped over were probably re-rendered, not new
+      const skipped = previous.slice(anchor + 1);
+      const appended = current
+        .slice(matchIndex + 1)
+        .filter((message) => !skipped.some((old) => this.isSameMessage(old, message)));
+      return { appended, realigned: false };
+    }
+
+    return { appended: [], realigned: true };
+  }
+
+  isSameMessage(a: ParsedMessage, b: ParsedMessage): boolean {
+    if (a.direction !== b.direction) return false;
+    if (a.sender && b.sender && similarity(a.sender, b.sender) < this.similarityThreshold) {
+      return false;
+    }
+    return similarity(a.text, b.text) >= this.similarityThreshold;
+  }
+
+  // Finds where previous[anchor] sits in the current frame, preferring the
+  // position backed by the longest run of matching earlier messages
+  private findAnchor(previous: ParsedMessage[], anchor: number, current: ParsedMessage[]): number | null {
+    let best: { index: number; run: number } | null = null;
+
+    for (let index = current.length - 1; index >= 0; index--) {
+      let run = 0;
+      while (
+        anchor - run >= 0 &&
+        index - run >= 0 &&
+        this.isSameMessage(previous[anchor - run], current[index - run])
+      ) {
+        run++;
+      }
+
+      const required = Math.min(MIN_ALIGNED_RUN, anchor + 1, index + 1);
+      if (run >= required && (!best || run > best.run)) {
+        best = { index, run };
+      }
+    }
+
+    return best?.index ?? null;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TYPING_SETTINGS } from "./app-configs";
+import { planTyping, TypingHumanizer, type Keystroke } from "./humanizer";
+import type { TypingSettings } from "./types";
+
+const REPLY = "Hello,\nhow are you? I'm around tonight if you want to grab dinner.\n\nLet me know!";
+
+// What the keystrokes leave in an input box
+function typedText(keystrokes: Keystroke[]): string {
+  return keystrokes.reduce((text, key) => (key.kind === "type" ? text + key.text : text.slice(0, -1)), "");
+}
+
+function planInChunks(text: string, chunks: number[], settings: TypingSettings, seed: number): Keystroke[] {
+  const humanizer = new TypingHumanizer(settings, seed);
+  const keystrokes: Keystroke[] = [];
+  let from = 0;
+  for (const to of [...chunks, text.length]) {
+    keystrokes.push(...humanizer.plan(text.slice(from, to)));
+    from = to;
+  }
+  return keystrokes;
+}
+
+describe("TypingHumanizer", () => {
+  const settings: TypingSettings = { ...DEFAULT_TYPING_SETTINGS, typoRate: 0.1 };
+
+  it("plans the same keystrokes for the same seed", () => {
+    expect(planTyping(REPLY, settings, 42)).toEqual(planTyping(REPLY, settings, 42));
+    expect(planTyping(REPLY, settings, 42)).not.toEqual(planTyping(REPLY, settings, 43));
+  });
+
+  it("types line breaks as single spaces", () => {
+    expect(typedText(planTyping(REPLY, settings, 7))).toBe(
+      "Hello, how are you? I'm around tonight if you want to grab dinner. Let me know!"
+    );
+  });
+
+  it("plans a streamed reply the same as the whole text", () => {
+    const whole = planTyping(REPLY, settings, 7);
+    // streams often split right before or after a line break
+    const breaks = [...REPLY.matchAll(/\n/g)].map((match) => match.index ?? 0);
+    expect(planInChunks(REPLY, breaks, settings, 7)).toEqual(whole);
+    expect(planInChunks(REPLY, breaks.map((index) => index + 1), settings, 7)).toEqual(whole);
+    for (let split = 1; split < REPLY.length; split++) {
+      expect(planInChunks(REPLY, [split], settings, 7)).toEqual(whole);
+    }
+  });
+
+  it("corrects every typo it makes", () => {
+    const keystrokes = planTyping("Sounds good, see you at the station", { ...settings, typoRate: 1 }, 3);
+    expect(keystrokes.some((key) => key.kind === "backspace")).toBe(true);
+    expect(typedText(keystrokes)).toBe("Sounds good, see you at the station");
+  });
+
+  it("does not type trailing whitespace", () => {
+    expect(typedText(planTyping("See you soon \n", settings, 1))).toBe("See you soon");
+  });
+});
@@ -0,0 +1,120 @@
+import { DEFAULT_TYPING_SETTINGS } from "./app-configs";
+import type { AgentConfig, ContactPolicy, TypingSettings } from "./types";
+
+export type Keystroke =
+  // delayMs is the wait before the key, measured from the previous one
+  | { kind: "type"; text: string; delayMs: number }
+  | { kind: "backspace"; delayMs: number };
+
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+
+// Typos hit a key next to the intended one
+const NEIGHBOR_KEYS: Record<string, string> = Object.fromEntries(
+  KEYBOARD_ROWS.flatMap((row, r) =>
+    Array.from(row, (key, i) => [
+      key,
+      [row[i - 1], row[i + 1], KEYBOARD_ROWS[r - 1]?.[i], KEYBOARD_ROWS[r - 1]?.[i + 1], KEYBOARD_ROWS[r + 1]?.[i - 1], KEYBOARD_ROWS[r + 1]?.[i]]
+        .filter(Boolean)
+        .join(""),
+    ])
+  )
+);
+
+const SENTENCE_END = /[.!?]/;
+const CLAUSE_END = /[,;:]/;
+
+// mulberry32, small and good enough to make keystroke timing reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Turns reply text into keystrokes with human timing. Keeps its random state,
+ * pending pauses and pending whitespace between calls, so a streamed reply
+ * can be planned chunk by chunk and comes out the same as planning it in one
+ * go. Whitespace is only typed once the next character shows whether it
+ * surrounds a line break, so trailing whitespace is never typed.
+ */
+export class TypingHumanizer {
+  private random: () => number;
+  // pause owed after the last character of the previous chunk
+  private pendingPauseMs = 0;
+  // whitespace at the end of the previous chunk, not typed yet
+  private pendingWhitespace = "";
+
+  constructor(
+    private settings: TypingSettings,
+    seed = settings.seed ?? Math.floor(Math.random() * 2 ** 32)
+  ) {
+    this.random = seededRandom(seed);
+  }
+
+  plan(text: string): Keystroke[] {
+    const keystrokes: Keystroke[] = [];
+    for (const char of text) {
+      if (/\s/.test(char)) {
+        this.pendingWhitespace += char;
+        continue;
+      }
+      // Enter sends the message in chat apps, so a run of whitespace with a line break is typed as one space
+      const whitespace = this.pendingWhitespace.includes("\n") ? " " : this.pendingWhitespace;
+      this.pendingWhitespace = "";
+      for (const space of whitespace) {
+        this.typeChar(space, keystrokes);
+      }
+      this.typeChar(char, keystrokes);
+    }
+    return keystrokes;
+  }
+
+  private typeChar(char: string, keystrokes: Keystroke[]) {
+    const delayMs = this.keyDelay() + this.pendingPauseMs;
+    this.pendingPauseMs = 0;
+
+    const neighbors = NEIGHBOR_KEYS[char.toLowerCase()];
+    if (neighbors && this.random() < this.settings.typoRate) {
+      const wrong = neighbors[Math.floor(this.random() * neighbors.length)];
+      keystrokes.push(
+        { kind: "type", text: char === char.toUpperCase() ? wrong.toUpperCase() : wrong, delayMs },
+        // noticing the mistake takes a moment
+        { kind: "backspace", delayMs: this.keyDelay() * 3 },
+        { kind: "type", text: char, delayMs: this.keyDelay() }
+      );
+    } else {
+      keystrokes.push({ kind: "type", text: char, delayMs });
+    }
+
+    if (SENTENCE_END.test(char)) {
+      this.pendingPauseMs = this.vary(this.settings.punctuationPauseMs * 2);
+    } else if (CLAUSE_END.test(char)) {
+      this.pendingPauseMs = this.vary(this.settings.punctuationPauseMs);
+    }
+  }
+
+  private keyDelay(): number {
+    return this.vary(60000 / (Math.max(this.settings.wordsPerMinute, 1) * 5));
+  }
+
+  private vary(ms: number): number {
+    return Math.round(ms * (1 + (this.random() * 2 - 1) * this.settings.jitter));
+  }
+}
+
+/**
+ * Keystrokes for a whole text, the same seed always gives the same plan.
+ */
+export function planTyping(text: string, settings: TypingSettings, seed?: number): Keystroke[] {
+  return new TypingHumanizer(settings, seed).plan(text);
+}
+
+// A contact's overrides win over the agent-wide settings
+export function resolveTypingSettings(config: AgentConfig, policy?: ContactPolicy | null): TypingSettings {
+  return { ...DEFAULT_TYPING_SETTINGS, ...config.typing, ...policy?.typing };
+}
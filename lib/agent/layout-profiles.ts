@@ -0,0 +1,77 @@
+import { APP_CONFIGS } from "./app-configs";
+import { getMonitorId } from "./robot";
+import { readJson, writeJson } from "./storage";
+import type { ChatApp, LayoutProfile, Point } from "./types";
+
+const LAYOUTS_FILE = "layout-profiles.json";
+
+export interface LayoutStore {
+  profiles: LayoutProfile[];
+  // active profile id per app
+  active: Partial<Record<ChatApp, string>>;
+}
+
+export async function loadLayoutStore(): Promise<LayoutStore> {
+  return readJson<LayoutStore>(LAYOUTS_FILE, { profiles: [], active: {} });
+}
+
+/**
+ * Creates or updates a profile and makes it the active one for its app.
+ */
+export async function saveLayoutProfile(
+  input: Omit<LayoutProfile, "id" | "updatedAt"> & { id?: string }
+): Promise<LayoutProfile> {
+  const store = await loadLayoutStore();
+  const profile: LayoutProfile = {
+    ...input,
+    id: input.id || crypto.randomUUID(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  store.profiles = [...store.profiles.filter((p) => p.id !== profile.id), profile];
+  store.active[profile.app] = profile.id;
+  await writeJson(LAYOUTS_FILE, store);
+  return profile;
+}
+
+export async function setActiveLayout(app: ChatApp, id: string): Promise<void> {
+  const store = await loadLayoutStore();
+  if (!store.profiles.some((p) => p.id === id && p.app === app)) {
+    throw new Error(`layout profile ${id} not found for ${app}`);
+  }
+  store.active[app] = id;
+  await writeJson(LAYOUTS_FILE, store);
+}
+
+export async function deleteLayoutProfile(id: string): Promise<void> {
+  const store = await loadLayoutStore();
+  store.profiles = store.profiles.filter((p) => p.id !== id);
+  for (const app of Object.keys(store.active) as ChatApp[]) {
+    if (store.active[app] === id) delete store.active[app];
+  }
+  await writeJson(LAYOUTS_FILE, store);
+}
+
+/**
+ * Picks the click targets for an app: the active profile when it was
+ * captured on the current monitor (or the monitor can't be read), otherwise
+ * any profile for this monitor, otherwise the built-in defaults. Profiles of
+ * other monitors are never used, their coordinates belong to another screen.
+ */
+export async function resolveLayout(app: ChatApp): Promise<{ inputBox: Point; sendButton: Point; source: string }> {
+  const store = await loadLayoutStore();
+  const monitor = await getMonitorId().catch(() => null);
+  const candidates = store.profiles.filter((p) => p.app === app);
+  const active = candidates.find((p) => p.id === store.active[app]);
+
+  const profile = active && (!monitor || active.monitor === monitor)
+    ? active
+    : candidates.find((p) => p.monitor === monitor);
+
+  if (profile) {
+    return { inputBox: profile.inputBox, sendButton: profile.sendButton, source: `profile "${profile.name}"` };
+  }
+
+  const defaults = APP_CONFIGS[app];
+  return { inputBox: defaults.inputBox, sendButton: defaults.sendButton, source: "default coordinates" };
+}
@@ -0,0 +1,93 @@
+import { pipe } from "@screenpipe/js";
+import { FailoverProvider } from "@/lib/ai/failover";
+import { createPresetProvider, resolveAiPreset } from "@/lib/ai/presets";
+import { OllamaProvider, OpenAICompatibleProvider, type LLMProvider } from "@/lib/ai/provider";
+import { DEFAULT_FAILOVER_POLICY } from "./app-configs";
+import type { AgentConfig, AiProvider } from "./types";
+
+const OLLAMA_API_URL = "http://localhost:11434/api";
+const NEBIUS_API_URL = "https://api.studio.nebius.com/v1";
+
+/**
+ * Builds the provider the agent replies with. Server-side, so Nebius is
+ * called directly instead of through the /api/nebius proxy and presets are
+ * read from the Screenpipe settings.
+ */
+export async function resolveProvider(config: AgentConfig): Promise<LLMProvider> {
+  switch (config.aiProvider) {
+    case "ollama":
+      return new OllamaProvider(config.ollamaModel, OLLAMA_API_URL);
+
+    case "nebius":
+      if (!config.nebiusApiKey) {
+        throw new Error("Nebius API key is not configured");
+      }
+      return new OpenAICompatibleProvider({
+        name: "Nebius",
+        model: config.nebiusModel,
+        baseUrl: NEBIUS_API_URL,
+        apiKey: config.nebiusApiKey,
+      });
+
+    case "preset": {
+      const settings = await pipe.settings.getAll();
+      const preset = resolveAiPreset(settings, config.aiPresetId);
+      if (!preset) {
+        throw new Error("No AI preset found, add one in the Screenpipe settings");
+      }
+      return createPresetProvider(preset);
+    }
+  }
+}
+
+/**
+ * Builds the selected provider followed by the configured fallbacks. A
+ * provider that cannot be built, e.g. Nebius without a key, is logged and
+ * left out of the chain. Throws when none is left.
+ */
+export async function resolveProviderChain(
+  config: AgentConfig,
+  log: (message: string) => void
+): Promise<FailoverProvider> {
+  const policy = config.failover ?? DEFAULT_FAILOVER_POLICY;
+  const chain = Array.from(new Set<AiProvider>([config.aiProvider, ...policy.fallbacks]));
+
+  const providers: LLMProvider[] = [];
+  for (const aiProvider of chain) {
+    try {
+      providers.push(await resolveProvider({ ...config, aiProvider }));
+    } catch (err) {
+      log(`Skipping ${aiProvider}: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  }
+
+  return new FailoverProvider(
+    providers,
+    {
+      maxRetries: policy.maxRetries,
+      timeoutMs: policy.timeoutSeconds * 1000,
+      backoffMs: policy.backoffSeconds * 1000,
+    },
+    log
+  );
+}
+
+/**
+ * Embeds texts with an Ollama embedding model. Embeddings always come from
+ * Ollama so memory stays on this machine whichever provider writes replies.
+ */
+export async function generateEmbeddings(model: string, input: string[]): Promise<number[][]> {
+  const response = await fetch(`${OLLAMA_API_URL}/embed`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model, input }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || "Failed to generate embeddings");
+  }
+
+  const data = await response.json();
+  return data.embeddings;
+}
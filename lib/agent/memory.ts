@@ -0,0 +1,254 @@
+import type Database from "better-sqlite3";
+import { listMessagesAfter } from "./conversation-store";
+import { getDb } from "./database";
+import { generateEmbeddings } from "./llm";
+import type { AgentConfig, ChatMessage, MemoryNote, MemorySnippet, MemorySource } from "./types";
+
+// Messages shorter than this ("ok", "lol") only add noise to retrieval
+const MIN_INDEXED_LENGTH = 12;
+const NOTE_CHUNK_LENGTH = 800;
+const EMBED_BATCH_SIZE = 32;
+// Caps how long one lookup spends catching up on unindexed messages
+const MAX_MESSAGES_PER_LOOKUP = 128;
+const MIN_SIMILARITY = 0.35;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS memory_notes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  -- one row per embedded piece of text, per embedding model
+  CREATE TABLE IF NOT EXISTS memory_chunks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source TEXT NOT NULL,
+    source_id INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    text TEXT NOT NULL,
+    model TEXT NOT NULL,
+    -- unit-length Float32Array, so a dot product is the cosine similarity
+    embedding BLOB NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS memory_chunks_by_model ON memory_chunks (model);
+  CREATE INDEX IF NOT EXISTS memory_chunks_by_source ON memory_chunks (source, source_id);
+
+  -- last message id indexed with each model
+  CREATE TABLE IF NOT EXISTS memory_index_state (
+    model TEXT PRIMARY KEY,
+    last_message_id INTEGER NOT NULL
+  );
+`;
+
+let schemaReady = false;
+
+function memoryDb(): Database.Database {
+  const connection = getDb();
+  if (!schemaReady) {
+    connection.exec(SCHEMA);
+    schemaReady = true;
+  }
+  return connection;
+}
+
+interface PendingChunk {
+  source: MemorySource;
+  sourceId: number;
+  label: string;
+  text: string;
+}
+
+function toBlob(vector: number[]): Buffer {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  const unit = Float32Array.from(vector, (value) => value / norm);
+  return Buffer.from(unit.buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  return new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Paragraphs are packed into chunks of up to NOTE_CHUNK_LENGTH characters
+function chunkNote(text: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length + 2 > NOTE_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+async function embedChunks(model: string, chunks: PendingChunk[]): Promise<void> {
+  const db = memoryDb();
+  const insert = db.prepare(
+    `INSERT INTO memory_chunks (source, source_id, label, text, model, embedding, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBED_BATCH_SIZE);
+    const embeddings = await generateEmbeddings(model, batch.map((chunk) => chunk.text));
+    const now = new Date().toISOString();
+    db.transaction(() => {
+      batch.forEach((chunk, index) => {
+        insert.run(chunk.source, chunk.sourceId, chunk.label, chunk.text, model, toBlob(embeddings[index]), now);
+      });
+    })();
+  }
+}
+
+/**
+ * Embeds notes that have no chunks for this model yet. Runs before every
+ * lookup, so notes that failed to embed are retried.
+ */
+export async function indexNotes(model: string): Promise<void> {
+  const notes = memoryDb()
+    .prepare(
+      `SELECT id, title, text FROM memory_notes n
+       WHERE NOT EXISTS (
+         SELECT 1 FROM memory_chunks k WHERE k.source = 'note' AND k.source_id = n.id AND k.model = ?
+       )`
+    )
+    .all(model) as { id: number; title: string; text: string }[];
+
+  const chunks = notes.flatMap((note) =>
+    chunkNote(note.text).map((text) => ({ source: "note" as const, sourceId: note.id, label: note.title, text }))
+  );
+  await embedChunks(model, chunks);
+}
+
+async function indexMessages(model: string): Promise<void> {
+  const db = memoryDb();
+  const state = db
+    .prepare("SELECT last_message_id FROM memory_index_state WHERE model = ?")
+    .get(model) as { last_message_id: number } | undefined;
+
+  const messages = listMessagesAfter(state?.last_message_id ?? 0, MAX_MESSAGES_PER_LOOKUP);
+  if (messages.length === 0) return;
+
+  await embedChunks(
+    model,
+    messages
+      .filter((message) => message.text.length >= MIN_INDEXED_LENGTH)
+      .map((message) => ({ source: "message" as const, sourceId: message.id, label: message.chat, text: message.text }))
+  );
+
+  db.prepare(
+    `INSERT INTO memory_index_state (model, last_message_id) VALUES (?, ?)
+     ON CONFLICT (model) DO UPDATE SET last_message_id = excluded.last_message_id`
+  ).run(model, messages[messages.length - 1].id);
+}
+
+/**
+ * Returns the top-k notes and past messages most similar to the query,
+ * indexing anything new first. Text already in the prompt is skipped.
+ */
+export async function searchMemory(
+  model: string,
+  query: string,
+  topK: number,
+  exclude: string[] = []
+): Promise<MemorySnippet[]> {
+  await indexNotes(model);
+  await indexMessages(model);
+
+  const [queryEmbedding] = await generateEmbeddings(model, [query]);
+  const queryVector = fromBlob(toBlob(queryEmbedding));
+  const skip = new Set([query, ...exclude].map((text) => text.trim()));
+
+  const rows = memoryDb()
+    .prepare("SELECT source, label, text, embedding FROM memory_chunks WHERE model = ?")
+    .all(model) as { source: MemorySource; label: string; text: string; embedding: Buffer }[];
+
+  const best = new Map<string, MemorySnippet>();
+  for (const row of rows) {
+    if (skip.has(row.text.trim())) continue;
+    const score = dot(queryVector, fromBlob(row.embedding));
+    if (score < MIN_SIMILARITY) continue;
+    // The same message can be stored in several conversations or runs
+    const previous = best.get(row.text);
+    if (!previous || previous.score < score) {
+      best.set(row.text, { source: row.source, label: row.label, text: row.text, score });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Memory lookup for a reply prompt. Retrieval is best effort, a missing
+ * embedding model must not stop replies, so failures are logged and an
+ * empty list is returned.
+ */
+export async function findRelevantSnippets(
+  config: AgentConfig,
+  message: string,
+  history: ChatMessage[],
+  log: (message: string) => void
+): Promise<MemorySnippet[]> {
+  if (!config.memory?.enabled) return [];
+
+  try {
+    const snippets = await searchMemory(
+      config.memory.embeddingModel,
+      message,
+      config.memory.topK,
+      history.map((entry) => entry.content)
+    );
+    if (snippets.length > 0) {
+      log(`Found ${snippets.length} relevant memory snippet(s)`);
+    }
+    return snippets;
+  } catch (err) {
+    console.error("memory: lookup failed:", err);
+    log(`Memory lookup failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    return [];
+  }
+}
+
+export function listNotes(): MemoryNote[] {
+  const rows = memoryDb()
+    .prepare("SELECT id, title, text, created_at FROM memory_notes ORDER BY id DESC")
+    .all() as { id: number; title: string; text: string; created_at: string }[];
+  return rows.map((row) => ({ id: row.id, title: row.title, text: row.text, createdAt: row.created_at }));
+}
+
+export function addNote(title: string, text: string): MemoryNote {
+  const createdAt = new Date().toISOString();
+  const result = memoryDb()
+    .prepare("INSERT INTO memory_notes (title, text, created_at) VALUES (?, ?, ?)")
+    .run(title, text, createdAt);
+  return { id: Number(result.lastInsertRowid), title, text, createdAt };
+}
+
+export function deleteNote(id: number): void {
+  const db = memoryDb();
+  db.transaction(() => {
+    db.prepare("DELETE FROM memory_chunks WHERE source = 'note' AND source_id = ?").run(id);
+    db.prepare("DELETE FROM memory_notes WHERE id = ?").run(id);
+  })();
+}
+
+export function getMemoryStats(): { notes: number; chunks: number } {
+  const db = memoryDb();
+  const notes = db.prepare("SELECT COUNT(*) AS count FROM memory_notes").get() as { count: number };
+  const chunks = db.prepare("SELECT COUNT(*) AS count FROM memory_chunks").get() as { count: number };
+  return { notes: notes.count, chunks: chunks.count };
+}
@@ -0,0 +1,64 @@
+import type { MonitorState, MonitorTransition } from "./types";
+
+// Every move the monitoring lifecycle allows, anything else is a bug in the caller
+const TRANSITIONS: Record<MonitorState, MonitorState[]> = {
+  idle: ["starting"],
+  starting: ["polling", "error", "idle"],
+  polling: ["generating", "waiting", "sending", "paused", "error", "idle"],
+  generating: ["waiting", "sending", "polling", "paused", "error", "idle"],
+  waiting: ["sending", "polling", "paused", "error", "idle"],
+  sending: ["polling", "paused", "error", "idle"],
+  paused: ["polling", "idle"],
+  error: ["starting", "idle"],
+};
+
+const MAX_HISTORY = 20;
+
+export type TransitionListener = (transition: MonitorTransition) => void;
+
+/**
+ * Holds the state of the monitoring loop. All changes go through
+ * transition(), which rejects moves the lifecycle does not allow and tells
+ * every listener, so the loop, the reply pipeline and the UI agree on it.
+ */
+export class MonitorStateMachine {
+  private current: MonitorState = "idle";
+  private history: MonitorTransition[] = [];
+  private listeners = new Set<TransitionListener>();
+
+  get state(): MonitorState {
+    return this.current;
+  }
+
+  get transitions(): MonitorTransition[] {
+    return this.history;
+  }
+
+  // Monitoring runs from start until stop or an error, pauses included
+  get isActive(): boolean {
+    return this.current !== "idle" && this.current !== "error";
+  }
+
+  can(to: MonitorState): boolean {
+    return TRANSITIONS[this.current].includes(to);
+  }
+
+  transition(to: MonitorState, reason?: string): MonitorTransition {
+    if (!this.can(to)) {
+      throw new Error(`invalid monitor transition ${this.current} -> ${to}`);
+    }
+
+    const transition: MonitorTransition = { from: this.current, to, reason, at: new Date().toISOString() };
+    this.current = to;
+    this.history = [...this.history, transition].slice(-MAX_HISTORY);
+    for (const listener of this.listeners) {
+      listener(transition);
+    }
+    return transition;
+  }
+
+  subscribe(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
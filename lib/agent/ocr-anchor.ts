@@ -0,0 +1,159 @@
+import { pipe } from "@screenpipe/js";
+import { APP_CONFIGS } from "./app-configs";
+import type { CaptureFilter, ChatApp, Point } from "./types";
+
+const SCREENPIPE_API_URL = "http://localhost:3030";
+
+// Anchors older than this may no longer reflect where the window is
+const MAX_ANCHOR_AGE_MS = 15000;
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface OcrWord extends Box {
+  text: string;
+  lineKey: string;
+}
+
+const toNumber = (value: unknown) => (value === undefined || value === null ? NaN : Number(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Normalizes the entries of ocr_text.text_json. Depending on the OCR engine
+ * they carry flat left/top/width/height fields or a nested bounding_box.
+ */
+function parseOcrWords(textJson: string): OcrWord[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(textJson);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  return entries.flatMap((entry: unknown, index) => {
+    if (!isRecord(entry)) return [];
+    const box = isRecord(entry.bounding_box) ? entry.bounding_box : entry;
+    const word: OcrWord = {
+      text: typeof entry.text === "string" ? entry.text.trim() : "",
+      left: toNumber(box.left ?? box.x),
+      top: toNumber(box.top ?? box.y),
+      width: toNumber(box.width),
+      height: toNumber(box.height),
+      lineKey: entry.line_num !== undefined
+        ? `${entry.block_num ?? 0}-${entry.par_num ?? 0}-${entry.line_num}`
+        : `entry-${index}`,
+    };
+    const valid = word.text && [word.left, word.top, word.width, word.height].every(Number.isFinite);
+    return valid ? [word] : [];
+  });
+}
+
+function unionBox(words: OcrWord[]): Box {
+  const left = Math.min(...words.map((w) => w.left));
+  const top = Math.min(...words.map((w) => w.top));
+  const right = Math.max(...words.map((w) => w.left + w.width));
+  const bottom = Math.max(...words.map((w) => w.top + w.height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+interface LatestTextJson {
+  textJson: string;
+  timestamp: string;
+  windowName: string | null;
+}
+
+async function fetchLatestTextJson(filter: CaptureFilter): Promise<LatestTextJson | null> {
+  const appName = filter.appName.replace(/'/g, "''");
+  const query = `
+    SELECT ocr.text_json as textJson, f.timestamp as timestamp, ocr.window_name as windowName
+    FROM ocr_text ocr
+    JOIN frames f ON ocr.frame_id = f.id
+    WHERE ocr.app_name LIKE '%${appName}%'
+    ORDER BY f.timestamp DESC
+    LIMIT 1
+  `;
+  const response = await fetch(`${SCREENPIPE_API_URL}/raw_sql`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query }),
+  });
+  if (!response.ok) {
+    throw new Error(`raw_sql failed with status ${response.status}`);
+  }
+  const rows = await response.json();
+  return rows?.[0]?.textJson ? rows[0] : null;
+}
+
+export type ComposeBoxLookup = { point: Point } | { point: null; reason: string };
+
+// Screen position and size of the app window, from the accessibility tree (macOS only)
+async function findWindowBounds(appName: string, windowName: string | null): Promise<Box | null> {
+  const window = await pipe.operator
+    .locator({ app: appName, window: windowName || undefined, role: "AXWindow", activateApp: false })
+    .first();
+  if (!window?.position || !window.size) return null;
+  return { left: window.position.x, top: window.position.y, width: window.size.width, height: window.size.height };
+}
+
+/**
+ * Finds the compose box from the placeholder text in the latest OCR frame of
+ * the app and returns the center of its bounding box in screen coordinates.
+ * The point is null, with the reason, when no recent placeholder is visible
+ * (e.g. a draft is in the box) or it can't be placed on screen.
+ *
+ * Screenpipe OCRs every window on its own, so text_json boxes are relative to
+ * the window capture, not the screen, and the window's position isn't stored.
+ * Boxes given as fractions of the capture are mapped onto the window bounds
+ * from the accessibility tree. Pixel boxes are dropped: the capture's scale
+ * to screen coordinates is unknown (2x on Retina), so the calibrated layout
+ * is safer than a guess.
+ */
+export async function locateComposeBox(app: ChatApp, filter: CaptureFilter): Promise<ComposeBoxLookup> {
+  const latest = await fetchLatestTextJson(filter);
+  if (!latest) return { point: null, reason: "no OCR frame of the app with word boxes" };
+
+  const age = Date.now() - new Date(latest.timestamp).getTime();
+  if (!(age <= MAX_ANCHOR_AGE_MS)) {
+    const reason = Number.isFinite(age) ? `latest OCR frame is ${Math.round(age / 1000)}s old` : "latest OCR frame has no timestamp";
+    return { point: null, reason };
+  }
+
+  const lines = new Map<string, OcrWord[]>();
+  for (const word of parseOcrWords(latest.textJson)) {
+    lines.set(word.lineKey, [...(lines.get(word.lineKey) ?? []), word]);
+  }
+
+  const anchors = APP_CONFIGS[app].composeAnchors;
+  const line = Array.from(lines.values()).find((words) => {
+    const text = words.map((w) => w.text).join(" ");
+    return anchors.some((anchor) => anchor.test(text));
+  });
+  if (!line) return { point: null, reason: "compose box placeholder not visible" };
+
+  const box = unionBox(line);
+  const point = { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+
+  const normalized = [box.left, box.top, box.width, box.height].every((v) => v >= 0 && v <= 1);
+  if (!normalized) {
+    return { point: null, reason: "the OCR engine gives pixel boxes, their scale to the screen is unknown" };
+  }
+
+  const window = await findWindowBounds(filter.appName, latest.windowName).catch(() => null);
+  if (!window) {
+    return { point: null, reason: "window position unavailable, it is only read from the macOS accessibility tree" };
+  }
+
+  return {
+    point: {
+      x: Math.round(window.left + point.x * window.width),
+      y: Math.round(window.top + point.y * window.height),
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import type { PacingSettings, TimeWindow } from "./types";
+
+export interface SendSlot {
+  sendAt: Date;
+  // set when active hours or a quiet period pushed the send back
+  holdReason?: string;
+}
+
+// Enough to step over every window of any sensible setup, guards against windows covering the whole day
+const MAX_WINDOW_STEPS = 10;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export function isWithinWindow(window: TimeWindow, date: Date): boolean {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+// Next moment after `date` at which the local clock shows `time`
+function nextOccurrence(date: Date, time: string): Date {
+  const minutes = toMinutes(time);
+  const next = new Date(date);
+  next.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (next <= date) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+// Longer messages take longer to read, up to the configured cap
+export function readDelayMs(text: string, settings: PacingSettings): number {
+  return Math.min(
+    settings.readDelaySeconds * 1000 + text.length * settings.readMsPerChar,
+    settings.maxReadDelaySeconds * 1000
+  );
+}
+
+/**
+ * Earliest time at or after `from` that is inside the active hours and
+ * outside every quiet period.
+ */
+export function nextAllowedTime(from: Date, settings: PacingSettings): SendSlot {
+  let sendAt = new Date(from);
+  let holdReason: string | undefined;
+
+  for (let step = 0; step < MAX_WINDOW_STEPS; step++) {
+    const quiet = settings.quietPeriods.find((window) => isWithinWindow(window, sendAt));
+    if (quiet) {
+      sendAt = nextOccurrence(sendAt, quiet.end);
+      holdReason = `quiet period ${quiet.start}-${quiet.end}`;
+      continue;
+    }
+
+    const active = settings.activeHours;
+    if (active && !isWithinWindow(active, sendAt)) {
+      sendAt = nextOccurrence(sendAt, active.start);
+      holdReason = `outside active hours ${active.start}-${active.end}`;
+      continue;
+    }
+
+    break;
+  }
+
+  return { sendAt, holdReason };
+}
+
+/**
+ * When a reply to `text` should go out: after a read delay counted from
+ * `now`, moved forward to the next allowed time.
+ */
+export function planSendTime(text: string, settings: PacingSettings, now = new Date()): SendSlot {
+  return nextAllowedTime(new Date(now.getTime() + readDelayMs(text, settings)), settings);
+}
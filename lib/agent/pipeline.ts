@@ -0,0 +1,264 @@
+import { pipe } from "@screenpipe/js";
+import type { LLMProvider } from "@/lib/ai/provider";
+import { DEFAULT_REVIEW_POLICY } from "./app-configs";
+import { conversationId } from "./burst";
+import { replyToBurst } from "./burst-reply";
+import { buildOcrQuery, getFrameRejection, resolveCaptureFilter } from "./capture-filter";
+import { AGENT_CONFIG_FILE, chatAgent } from "./chat-agent";
+import { parseChatTitle, parseConversation } from "./conversation-parser";
+import { listRecentSentTexts, recordIncomingMessage, updateDraftReply } from "./conversation-store";
+import { loadAnsweredMessages, UnansweredMessageDetector } from "./detection";
+import { ECHO_LOOKBACK, markSelfEchoes } from "./echo";
+import { resolveProviderChain } from "./llm";
+import { hasDueReplies, processDueReplies } from "./reply-schedule";
+import { hasExpiredDraftsToSend, processExpiredDrafts } from "./review-queue";
+import { getStoredReplyHold, sendReply, sendStoredReply } from "./sender";
+import { readJson, writeJson } from "./storage";
+import type { AgentConfig, ConversationKey, ParsedMessage, PipelineMode, PipelineReport } from "./types";
+
+const LAST_RUN_FILE = "pipeline-last-run.json";
+
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const MAX_FRAMES = 50;
+const MAX_REPLIES_PER_RUN = 5;
+const HELD_REPLY_REASON = "user was active or monitoring paused";
+
+/**
+ * Runs one full cycle for the cron job declared in pipe.json: query OCR since
+ * the previous run, detect unanswered messages, draft replies and either send
+ * them or queue them for later.
+ */
+export async function runPipeline(modeOverride?: PipelineMode): Promise<PipelineReport> {
+  const startedAt = new Date();
+  const logs: string[] = [];
+  const log = (message: string) => {
+    console.log(`pipeline: ${message}`);
+    logs.push(message);
+  };
+
+  const config = await readJson<AgentConfig | null>(AGENT_CONFIG_FILE, null);
+  const mode: PipelineMode = modeOverride ?? config?.pipelineMode ?? "queue";
+
+  const report: PipelineReport = {
+    success: false,
+    app: config?.app ?? null,
+    mode,
+    startedAt: startedAt.toISOString(),
+    finishedAt: "",
+    durationMs: 0,
+    framesScanned: 0,
+    messagesDetected: 0,
+    replies: [],
+    logs,
+  };
+
+  const finish = (error?: string) => {
+    const finishedAt = new Date();
+    report.success = !error;
+    report.error = error;
+    report.finishedAt = finishedAt.toISOString();
+    report.durationMs = finishedAt.getTime() - startedAt.getTime();
+    return report;
+  };
+
+  if (!config) {
+    return finish("no agent configuration found, start monitoring once from the UI");
+  }
+
+  try {
+    const policy = config.reviewPolicy ?? DEFAULT_REVIEW_POLICY;
+    const processStoredReplies = async () => {
+      const expired = await processExpiredDrafts(
+        policy,
+        (draft) => sendStoredReply(config, draft, log),
+        (draft) => getStoredReplyHold(config, { app: draft.app, chat: draft.chat ?? null })
+      );
+      for (const draft of expired) {
+        if (draft.status === "pending") {
+          log(`held timed out draft for ${draft.contact ?? draft.chat ?? "chat"}: ${draft.error}`);
+        } else {
+          updateDraftReply(draft.id, draft.status, draft.reply);
+        }
+      }
+      if (expired.length > 0) {
+        log(`applied review timeout policy to ${expired.length} draft(s)`);
+      }
+
+      const due = await processDueReplies(
+        (reply) => sendStoredReply(config, reply, log),
+        (reply) => getStoredReplyHold(config, reply)
+      );
+      for (const reply of due) {
+        if (reply.status === "scheduled") {
+          log(`held scheduled reply to ${reply.contact ?? reply.chat ?? "chat"}: ${reply.holdReason}`);
+        } else {
+          updateDraftReply(reply.id, reply.status === "sent" ? "sent" : "failed", reply.reply);
+        }
+      }
+      if (due.length > 0) {
+        log(`sent ${due.filter((reply) => reply.status === "sent").length} of ${due.length} scheduled reply(s)`);
+      }
+    };
+
+    // Sends share the live agent's queue and wait for the user to go idle, discarding needs neither
+    if ((await hasDueReplies()) || (await hasExpiredDraftsToSend(policy))) {
+      if (!(await chatAgent.runSend("pipeline run", processStoredReplies, config))) {
+        log("user is active or monitoring is paused, scheduled sends wait for the next run");
+      }
+    } else {
+      await processStoredReplies();
+    }
+
+    const lastRun = await readJson<{ finishedAt?: string; resumeFrom?: string }>(LAST_RUN_FILE, {});
+    const startTime =
+      lastRun.resumeFrom ??
+      lastRun.finishedAt ??
+      new Date(startedAt.getTime() - DEFAULT_LOOKBACK_MS).toISOString();
+    log(`querying ocr for ${config.app} since ${startTime}`);
+
+    const filter = resolveCaptureFilter(config);
+    const result = await pipe.queryScreenpipe(
+      buildOcrQuery(filter, {
+        startTime,
+        endTime: startedAt.toISOString(),
+        limit: MAX_FRAMES,
+      })
+    );
+
+    // Historical frames are expected to be old, so only app and window are checked
+    const frames = (result?.data ?? []).flatMap((item) => {
+      if (item.type !== "OCR" || !item.content.text) return [];
+      const rejection = getFrameRejection(item.content, filter);
+      if (rejection) {
+        log(`rejected frame ${item.content.frameId}: ${rejection}`);
+        return [];
+      }
+      return [item.content];
+    });
+    report.framesScanned = frames.length;
+
+    // The next run queries again from the first frame of a message that got no reply, instead of from now
+    let resumeFrom: string | undefined;
+    const retryFrom = (seenAt: string) => {
+      if (!resumeFrom || new Date(seenAt) < new Date(resumeFrom)) resumeFrom = seenAt;
+    };
+
+    // Results come newest first, walk them oldest first so replies keep order
+    const answered = await loadAnsweredMessages();
+    const detector = new UnansweredMessageDetector();
+    // Frame the detector's held messages were seen in, a failed reply to them retries from there
+    let heldSince: string | undefined;
+    const pending: { parsed: ParsedMessage; conversation: ConversationKey; seenAt: string }[] = [];
+    for (const frame of [...frames].reverse()) {
+      const chatTitle = parseChatTitle(frame.text, config.app, frame.windowName);
+      const { messages } = markSelfEchoes(
+        parseConversation(frame.text, config.app, { selfName: config.selfName }),
+        listRecentSentTexts({ app: config.app, chat: chatTitle }, ECHO_LOOKBACK)
+      );
+      const { appended, confirmed } = detector.detect(chatTitle, messages);
+      const candidates = [
+        ...confirmed.map((parsed) => ({ parsed, seenAt: heldSince ?? frame.timestamp })),
+        ...appended.map((parsed) => ({ parsed, seenAt: frame.timestamp })),
+      ];
+      if (messages.length > 0) {
+        heldSince = detector.pending.length > 0 ? frame.timestamp : undefined;
+      }
+
+      for (const { parsed, seenAt } of candidates) {
+        if (!answered.includes(parsed.text) && !pending.some((p) => p.parsed.text === parsed.text)) {
+          pending.push({ parsed, conversation: { app: config.app, chat: chatTitle }, seenAt });
+        }
+      }
+    }
+    // No later frame showed them yet, the next run looks at their frame again
+    if (heldSince) {
+      log(`waiting for a later frame to confirm ${detector.pending.length} message(s) seen at ${heldSince}`);
+      retryFrom(heldSince);
+    }
+    report.messagesDetected = pending.length;
+    log(`detected ${pending.length} unanswered message(s) in ${frames.length} frame(s)`);
+
+    // Messages a contact sent in a row get one reply, like the live agent's bursts
+    const bursts = new Map<string, { conversation: ConversationKey; messages: ParsedMessage[]; seenAt: string }>();
+    for (const { parsed, conversation, seenAt } of pending) {
+      const id = conversationId(conversation);
+      const burst = bursts.get(id) ?? { conversation, messages: [], seenAt };
+      burst.messages.push(parsed);
+      bursts.set(id, burst);
+    }
+
+    // The newest bursts are answered, older ones wait for the next run
+    const queued = [...bursts.values()];
+    for (const { conversation, messages, seenAt } of queued.slice(0, -MAX_REPLIES_PER_RUN)) {
+      const message = messages.map((m) => m.text).join("\n");
+      const error = `more than ${MAX_REPLIES_PER_RUN} chats to answer, left for the next run`;
+      log(`skipped "${message.substring(0, 30)}" in ${conversation.chat ?? "unknown chat"}: ${error}`);
+      report.replies.push({ message, status: "skipped", error });
+      retryFrom(seenAt);
+    }
+
+    // Resolved on the first reply so runs without messages work without a provider
+    let provider: LLMProvider | null = null;
+    for (const { conversation, messages, seenAt } of queued.slice(-MAX_REPLIES_PER_RUN)) {
+      const message = messages.map((m) => m.text).join("\n");
+      const burst = messages.map((parsed) => ({ parsed, messageId: recordIncomingMessage(conversation, parsed) }));
+      let contact: string | undefined;
+      try {
+        const outcome = await replyToBurst(config, conversation, burst, mode === "send", {
+          log,
+          resolveProvider: async () => (provider ??= await resolveProviderChain(config, log)),
+          onGenerate: (decided) => {
+            contact = decided ?? undefined;
+          },
+          send: async (chunks, typing) => {
+            // The cron job runs whatever chat is in front, a reply is only typed into its own
+            const sent = await chatAgent.runSend(
+              "pipeline reply",
+              async () => {
+                const hold = await getStoredReplyHold(config, conversation);
+                if (hold) return hold;
+                await sendReply(config, chunks, log, typing);
+                return true;
+              },
+              config
+            );
+            return sent ? sent.result : null;
+          },
+          holdReason: HELD_REPLY_REASON,
+        });
+        const { status, reply, error, scheduled } = outcome;
+        contact = outcome.contact;
+
+        if (status === "skipped") {
+          log(`skipped "${message.substring(0, 30)}" from ${contact ?? "unknown contact"}: ${error}`);
+        } else if (scheduled?.holdReason === HELD_REPLY_REASON) {
+          log(`user is active or monitoring is paused, scheduled reply to "${message.substring(0, 30)}" for later`);
+        } else if (outcome.queuedReason) {
+          log(`queued reply to "${message.substring(0, 30)}" instead of sending it: ${outcome.queuedReason}`);
+        } else if (scheduled) {
+          log(`scheduled reply for ${scheduled.sendAt}${outcome.merged > 0 ? `, merged ${outcome.merged} waiting reply(s)` : ""}`);
+        }
+        // Pipeline replies have no signal and a holdReason, so they are never cancelled
+        report.replies.push({ message, contact, reply, status: status === "cancelled" ? "failed" : status, error });
+        if (status === "failed" || status === "cancelled") {
+          retryFrom(seenAt);
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : "Unknown error";
+        log(`failed to reply to "${message.substring(0, 30)}": ${error}`);
+        report.replies.push({ message, contact, status: "failed", error });
+        retryFrom(seenAt);
+      }
+    }
+
+    if (resumeFrom) {
+      log(`next run looks back to ${resumeFrom} for the messages left without a reply`);
+    }
+    finish();
+    await writeJson(LAST_RUN_FILE, { finishedAt: report.finishedAt, resumeFrom });
+    return report;
+  } catch (err) {
+    console.error("pipeline: run failed:", err);
+    return finish(err instanceof Error ? err.message : "Unknown error");
+  }
+}
@@ -0,0 +1,62 @@
+import type { Point } from "./types";
+
+// Our own clicks and typing keep echoing back as UI events for a moment
+const OWN_ACTION_GRACE_MS = 3000;
+// Nothing is known about the time between cursor samples further apart than this
+const MAX_SAMPLE_GAP_MS = 15000;
+
+/**
+ * Remembers when the human last used the mouse or keyboard, so sends can
+ * wait instead of fighting them for input. Activity right after one of the
+ * agent's own actions is not counted. Once the cursor is sampled, the user
+ * only counts as idle after being watched for the whole idle period.
+ */
+export class PresenceDetector {
+  private lastActivityAt = -Infinity;
+  private lastSource = "";
+  private lastCursor: Point | null = null;
+  private ownActionUntil = -Infinity;
+  private lastSampleAt = -Infinity;
+  private watchingSince = -Infinity;
+
+  get source(): string {
+    return this.lastSource || "not watched long enough";
+  }
+
+  noteActivity(source: string, now = Date.now()) {
+    if (now < this.ownActionUntil) return;
+    this.lastActivityAt = now;
+    this.lastSource = source;
+  }
+
+  // A cursor that moved since the last sample means the mouse is in use
+  noteCursor(position: Point, now = Date.now()) {
+    if (now - this.lastSampleAt > MAX_SAMPLE_GAP_MS) {
+      this.watchingSince = now;
+    }
+    this.lastSampleAt = now;
+    if (this.lastCursor && (this.lastCursor.x !== position.x || this.lastCursor.y !== position.y)) {
+      this.noteActivity("mouse", now);
+    }
+    this.lastCursor = position;
+  }
+
+  noteOwnAction(now = Date.now()) {
+    this.ownActionUntil = now + OWN_ACTION_GRACE_MS;
+    // the agent moved the cursor itself, start over from wherever it is now
+    this.lastCursor = null;
+  }
+
+  isIdle(idleSeconds: number, now = Date.now()): boolean {
+    return now - Math.max(this.lastActivityAt, this.watchingSince) >= idleSeconds * 1000;
+  }
+
+  reset() {
+    this.lastActivityAt = -Infinity;
+    this.lastSource = "";
+    this.lastCursor = null;
+    this.ownActionUntil = -Infinity;
+    this.lastSampleAt = -Infinity;
+    this.watchingSince = -Infinity;
+  }
+}
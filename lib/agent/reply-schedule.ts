@@ -0,0 +1,136 @@
+import { readJson, writeJson } from "./storage";
+import type { ConversationKey, ScheduledReply } from "./types";
+
+export const REPLY_SCHEDULE_FILE = "reply-schedule.json";
+
+// Finished entries are kept for the UI history, oldest ones are dropped
+const MAX_FINISHED_REPLIES = 50;
+
+type SendScheduled = (reply: ScheduledReply) => Promise<void>;
+// Why a due reply can't go out right now, null when it can
+type HoldScheduled = (reply: ScheduledReply) => Promise<string | null>;
+
+// A held reply is checked again after this
+const HOLD_RETRY_MS = 60 * 1000;
+
+// The agent loop, pipeline runs and the API routes all update the file, serialize them
+let scheduleLock: Promise<unknown> = Promise.resolve();
+
+function withSchedule<T>(update: (schedule: ScheduledReply[]) => Promise<T>): Promise<T> {
+  const run = scheduleLock.then(async () => {
+    const schedule = await readJson<ScheduledReply[]>(REPLY_SCHEDULE_FILE, []);
+    const result = await update(schedule);
+    const waiting = schedule.filter((reply) => reply.status === "scheduled");
+    const finished = schedule.filter((reply) => reply.status !== "scheduled").slice(-MAX_FINISHED_REPLIES);
+    await writeJson(REPLY_SCHEDULE_FILE, [...finished, ...waiting]);
+    return result;
+  });
+  scheduleLock = run.catch(() => undefined);
+  return run;
+}
+
+const sameConversation = (reply: ScheduledReply, key: ConversationKey) =>
+  reply.app === key.app && (reply.chat ?? "").toLowerCase() === (key.chat ?? "").toLowerCase();
+
+export async function listScheduledReplies(): Promise<ScheduledReply[]> {
+  return readJson<ScheduledReply[]>(REPLY_SCHEDULE_FILE, []);
+}
+
+export async function hasDueReplies(now = Date.now()): Promise<boolean> {
+  const schedule = await listScheduledReplies();
+  return schedule.some((reply) => reply.status === "scheduled" && new Date(reply.sendAt).getTime() <= now);
+}
+
+export async function scheduleReply(
+  input: Omit<ScheduledReply, "id" | "status" | "createdAt" | "updatedAt">
+): Promise<ScheduledReply> {
+  const now = new Date().toISOString();
+  const reply: ScheduledReply = {
+    ...input,
+    id: crypto.randomUUID(),
+    status: "scheduled",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await withSchedule(async (schedule) => {
+    schedule.push(reply);
+  });
+  return reply;
+}
+
+/**
+ * Takes the replies still waiting in a conversation out of the schedule, so
+ * the caller can answer their messages together with a newer one. They go
+ * back with restoreScheduledReplies if that reply can't be scheduled.
+ */
+export async function takeScheduledReplies(key: ConversationKey): Promise<ScheduledReply[]> {
+  return withSchedule(async (schedule) => {
+    const waiting = schedule.filter((reply) => reply.status === "scheduled" && sameConversation(reply, key));
+    for (const reply of waiting) {
+      reply.status = "merged";
+      reply.updatedAt = new Date().toISOString();
+    }
+    return waiting;
+  });
+}
+
+// Undoes takeScheduledReplies, so the messages of those replies still get answered
+export async function restoreScheduledReplies(replies: ScheduledReply[]): Promise<void> {
+  if (replies.length === 0) return;
+  const ids = new Set(replies.map((reply) => reply.id));
+  await withSchedule(async (schedule) => {
+    for (const reply of schedule) {
+      if (ids.has(reply.id) && reply.status === "merged") {
+        reply.status = "scheduled";
+        reply.updatedAt = new Date().toISOString();
+      }
+    }
+  });
+}
+
+export async function cancelScheduledReply(id: string): Promise<ScheduledReply> {
+  return withSchedule(async (schedule) => {
+    const reply = schedule.find((r) => r.id === id && r.status === "scheduled");
+    if (!reply) {
+      throw new Error(`no scheduled reply with id ${id}`);
+    }
+    reply.status = "cancelled";
+    reply.updatedAt = new Date().toISOString();
+    return reply;
+  });
+}
+
+/**
+ * Sends every reply whose time has come, oldest first. Replies `hold` gives a
+ * reason for stay scheduled with that reason and are retried a minute later.
+ * Returns the due replies, held ones still have the "scheduled" status.
+ */
+export async function processDueReplies(send: SendScheduled, hold?: HoldScheduled): Promise<ScheduledReply[]> {
+  return withSchedule(async (schedule) => {
+    const now = Date.now();
+    const due = schedule
+      .filter((reply) => reply.status === "scheduled" && new Date(reply.sendAt).getTime() <= now)
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+
+    for (const reply of due) {
+      const holdReason = hold ? await hold(reply) : null;
+      if (holdReason) {
+        reply.holdReason = holdReason;
+        reply.sendAt = new Date(Date.now() + HOLD_RETRY_MS).toISOString();
+        reply.updatedAt = new Date().toISOString();
+        continue;
+      }
+
+      try {
+        await send(reply);
+        reply.status = "sent";
+      } catch (err) {
+        reply.status = "failed";
+        reply.error = err instanceof Error ? err.message : "Unknown error";
+      }
+      reply.updatedAt = new Date().toISOString();
+    }
+    return due;
+  });
+}
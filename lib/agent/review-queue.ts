@@ -0,0 +1,181 @@
+import { DEFAULT_REVIEW_POLICY } from "./app-configs";
+import { readJson, writeJson } from "./storage";
+import type { AgentConfig, QueuedReply, ReviewPolicy } from "./types";
+
+export const REPLY_QUEUE_FILE = "reply-queue.json";
+
+// Reviewed drafts are kept for the UI history, oldest ones are dropped
+const MAX_FINISHED_DRAFTS = 50;
+// A timed out draft that was held is tried again after this
+const HOLD_RETRY_MS = 60 * 1000;
+
+type SendDraft = (draft: QueuedReply) => Promise<void>;
+// Why a draft can't be sent right now, null when it can
+type HoldDraft = (draft: QueuedReply) => Promise<string | null>;
+
+export interface EnqueueOptions {
+  contact?: string;
+  chat?: string | null;
+  requireApproval?: boolean;
+  // model that wrote the reply, defaults to the one configured
+  model?: string;
+}
+
+// The agent loop and the API routes both update the queue file, serialize them
+let queueLock: Promise<unknown> = Promise.resolve();
+
+function withQueue<T>(update: (queue: QueuedReply[]) => Promise<T>): Promise<T> {
+  const run = queueLock.then(async () => {
+    const queue = await readJson<QueuedReply[]>(REPLY_QUEUE_FILE, []);
+    const result = await update(queue);
+    const pending = queue.filter((draft) => draft.status === "pending");
+    const finished = queue.filter((draft) => draft.status !== "pending").slice(-MAX_FINISHED_DRAFTS);
+    await writeJson(REPLY_QUEUE_FILE, [...finished, ...pending]);
+    return result;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+}
+
+// Presets are resolved on the server, callers that have the provider pass its model instead
+export function getModelName(config: AgentConfig): string {
+  switch (config.aiProvider) {
+    case "ollama":
+      return config.ollamaModel;
+    case "nebius":
+      return config.nebiusModel;
+    case "preset":
+      return config.aiPresetId ? `preset ${config.aiPresetId}` : "default preset";
+  }
+}
+
+export async function listDrafts(): Promise<QueuedReply[]> {
+  return readJson<QueuedReply[]>(REPLY_QUEUE_FILE, []);
+}
+
+export async function enqueueDraft(
+  config: AgentConfig,
+  message: string,
+  reply: string,
+  options: EnqueueOptions = {}
+): Promise<QueuedReply> {
+  const policy = config.reviewPolicy ?? DEFAULT_REVIEW_POLICY;
+  const now = new Date();
+  const draft: QueuedReply = {
+    id: crypto.randomUUID(),
+    app: config.app,
+    message,
+    contact: options.contact,
+    chat: options.chat ?? null,
+    reply,
+    model: options.model ?? getModelName(config),
+    status: "pending",
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: policy.timeoutMinutes > 0
+      ? new Date(now.getTime() + policy.timeoutMinutes * 60 * 1000).toISOString()
+      : null,
+    requireApproval: options.requireApproval,
+  };
+
+  await withQueue(async (queue) => {
+    queue.push(draft);
+  });
+  return draft;
+}
+
+// A held draft stays pending with the reason as its error, so it can be tried again
+async function sendAndRecord(draft: QueuedReply, send: SendDraft, hold?: HoldDraft) {
+  const holdReason = hold ? await hold(draft) : null;
+  if (holdReason) {
+    draft.error = holdReason;
+    draft.updatedAt = new Date().toISOString();
+    return;
+  }
+
+  try {
+    await send(draft);
+    draft.status = "sent";
+    draft.error = undefined;
+  } catch (err) {
+    draft.status = "failed";
+    draft.error = err instanceof Error ? err.message : "Unknown error";
+  }
+  draft.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Sends a pending draft, optionally with text edited by the reviewer. The
+ * draft is still pending afterwards when `hold` kept it back.
+ */
+export async function approveDraft(
+  id: string,
+  send: SendDraft,
+  editedReply?: string,
+  hold?: HoldDraft
+): Promise<QueuedReply> {
+  return withQueue(async (queue) => {
+    const draft = queue.find((d) => d.id === id && d.status === "pending");
+    if (!draft) {
+      throw new Error(`no pending draft with id ${id}`);
+    }
+    if (editedReply?.trim()) {
+      draft.reply = editedReply.trim();
+    }
+    await sendAndRecord(draft, send, hold);
+    return draft;
+  });
+}
+
+export async function rejectDraft(id: string): Promise<QueuedReply> {
+  return withQueue(async (queue) => {
+    const draft = queue.find((d) => d.id === id && d.status === "pending");
+    if (!draft) {
+      throw new Error(`no pending draft with id ${id}`);
+    }
+    draft.status = "rejected";
+    draft.updatedAt = new Date().toISOString();
+    return draft;
+  });
+}
+
+// Whether processExpiredDrafts would send anything right now
+export async function hasExpiredDraftsToSend(policy: ReviewPolicy, now = Date.now()): Promise<boolean> {
+  if (policy.onTimeout !== "send") return false;
+  const queue = await listDrafts();
+  return queue.some(
+    (draft) =>
+      draft.status === "pending" && !draft.requireApproval && draft.expiresAt && new Date(draft.expiresAt).getTime() <= now
+  );
+}
+
+/**
+ * Applies the timeout policy to drafts past their expiry: sends them or
+ * marks them expired. Drafts `hold` keeps back stay pending and are tried
+ * again a minute later. Returns the drafts that were handled or held.
+ */
+export async function processExpiredDrafts(
+  policy: ReviewPolicy,
+  send: SendDraft,
+  hold?: HoldDraft
+): Promise<QueuedReply[]> {
+  return withQueue(async (queue) => {
+    const now = Date.now();
+    const expired = queue.filter(
+      (draft) => draft.status === "pending" && draft.expiresAt && new Date(draft.expiresAt).getTime() <= now
+    );
+
+    for (const draft of expired) {
+      if (policy.onTimeout === "send" && !draft.requireApproval) {
+        await sendAndRecord(draft, send, hold);
+        if (draft.status === "pending") {
+          draft.expiresAt = new Date(Date.now() + HOLD_RETRY_MS).toISOString();
+        }
+      } else {
+        draft.status = "expired";
+        draft.updatedAt = new Date().toISOString();
+      }
+    }
+    return expired;
+  });
+}
@@ -0,0 +1,33 @@
+import type { Point } from "./types";
+
+type Robot = typeof import("robotjs");
+
+let robot: Robot | null = null;
+
+/**
+ * Loads robotjs on first use. It is a native addon, so a missing or
+ * mismatched build only breaks the features that need it.
+ */
+export async function loadRobot(): Promise<Robot> {
+  if (!robot) {
+    try {
+      const mod = await import("robotjs");
+      robot = ((mod as { default?: Robot }).default ?? mod) as Robot;
+    } catch (err) {
+      console.error("agent: failed to load robotjs:", err);
+      throw new Error("robotjs is not available, rebuild it for this platform");
+    }
+  }
+  return robot;
+}
+
+export async function getCursorPosition(): Promise<Point> {
+  const { x, y } = (await loadRobot()).getMousePos();
+  return { x, y };
+}
+
+// Identifies the current display by resolution so layouts can be kept per monitor
+export async function getMonitorId(): Promise<string> {
+  const { width, height } = (await loadRobot()).getScreenSize();
+  return `${width}x${height}`;
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeExecutor, resolveActionExecutor } from "./action-executor";
+import { sendReply } from "./sender";
+import type { AgentConfig, TypingSettings } from "./types";
+
+vi.mock("./action-executor", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./action-executor")>()),
+  resolveActionExecutor: vi.fn(),
+}));
+vi.mock("./layout-profiles", () => ({
+  resolveLayout: async () => ({ inputBox: { x: 600, y: 700 }, sendButton: { x: 670, y: 700 }, source: "test layout" }),
+}));
+vi.mock("./ocr-anchor", () => ({
+  locateComposeBox: async () => ({ point: null, reason: "not on screen in tests" }),
+}));
+
+const config = { app: "whatsapp", actionBackend: "fake" } as AgentConfig;
+// fast and without typos, so the keystrokes are exactly the reply
+const typing: TypingSettings = { wordsPerMinute: 60000, jitter: 0, punctuationPauseMs: 0, typoRate: 0, seed: 1 };
+
+async function* stream(...chunks: string[]) {
+  yield* chunks;
+}
+
+// sendReply waits for clicks to land with real timers
+describe("sendReply", { timeout: 10000 }, () => {
+  let executor: FakeExecutor;
+  const useExecutor = (fake: FakeExecutor) => {
+    executor = fake;
+    vi.mocked(resolveActionExecutor).mockReturnValue(fake);
+  };
+
+  beforeEach(() => useExecutor(new FakeExecutor()));
+
+  it("types a streamed reply into the input box and clicks send", async () => {
+    await sendReply(config, stream("Sure,\n", "see you at 8!"), () => {}, typing);
+
+    expect(executor.typedText).toBe("Sure, see you at 8!");
+    expect(executor.actions.slice(-2).map((action) => [action.kind, action.detail])).toEqual([
+      ["move", "670, 700"],
+      ["click", "left"],
+    ]);
+  });
+
+  it("clears the input box when typing fails half way", async () => {
+    useExecutor(new FakeExecutor("type", 4));
+
+    await expect(sendReply(config, "Running late, sorry", () => {}, typing)).rejects.toThrow("fake type failed");
+
+    const actions = executor.actions.map((action) => [action.kind, action.detail]);
+    const typed = actions.findIndex(([kind]) => kind === "type");
+    expect(actions[typed]).toEqual(["type", "Runn"]);
+    // the text is selected and deleted, send is never clicked
+    expect(actions.slice(typed + 1)).toEqual([
+      ["move", "600, 700"],
+      ["click", "left"],
+      ["click", "left"],
+      ["click", "left"],
+      ["click", "left"],
+      ["press", "backspace"],
+    ]);
+  });
+});
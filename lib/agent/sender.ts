@@ -0,0 +1,174 @@
+import { resolveActionExecutor, type ActionExecutor } from "./action-executor";
+import { resolveCaptureFilter } from "./capture-filter";
+import { findContactPolicy, loadContactPolicies } from "./contact-policies";
+import { getChatRejection, getFocusRejection } from "./focus-guard";
+import { resolveTypingSettings, TypingHumanizer } from "./humanizer";
+import { resolveLayout } from "./layout-profiles";
+import { locateComposeBox } from "./ocr-anchor";
+import type { AgentConfig, ConversationKey, Point, QueuedReply, TypingSettings } from "./types";
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Locates the compose box from its OCR'd placeholder so sends survive window
+ * moves. The send button keeps its calibrated offset from the input box.
+ * Falls back to the calibrated (or default) layout.
+ */
+async function resolveSendTargets(
+  config: AgentConfig,
+  log: (message: string) => void
+): Promise<{ inputBox: Point; sendButton: Point; source: string }> {
+  const layout = await resolveLayout(config.app);
+
+  try {
+    const lookup = await locateComposeBox(config.app, resolveCaptureFilter(config));
+    const anchor = lookup.point;
+    if (anchor) {
+      return {
+        inputBox: anchor,
+        sendButton: {
+          x: anchor.x + layout.sendButton.x - layout.inputBox.x,
+          y: anchor.y + layout.sendButton.y - layout.inputBox.y,
+        },
+        source: "OCR anchor",
+      };
+    }
+    log(`Compose box not located on screen: ${lookup.reason}`);
+  } catch (err) {
+    console.error("agent: OCR anchor lookup failed:", err);
+    log(`OCR anchor lookup failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+  }
+
+  return layout;
+}
+
+/**
+ * Throws when the chat app is not the window in front, so keystrokes and
+ * clicks never land in a popup or another app. Backends that don't reach the
+ * screen skip the check.
+ */
+async function verifyFocus(config: AgentConfig, executor: ActionExecutor, step: string, log: (message: string) => void) {
+  if (!executor.live) return;
+
+  let rejection: string | null;
+  try {
+    rejection = await getFocusRejection(resolveCaptureFilter(config));
+  } catch (err) {
+    rejection = `focus check failed: ${err instanceof Error ? err.message : "Unknown error"}`;
+  }
+  if (rejection) {
+    log(`Not ${step}, ${config.app} is not in front (${rejection})`);
+    throw new Error(`${config.app} is not in front: ${rejection}`);
+  }
+}
+
+// Click into the input box, then triple click to select any text already in it
+async function selectInputText(executor: ActionExecutor, inputBox: Point) {
+  await executor.moveMouse(inputBox.x, inputBox.y);
+  await sleep(300);
+  await executor.click("left");
+
+  await sleep(300);
+  for (let i = 0; i < 3; i++) {
+    await executor.click("left");
+    await sleep(100);
+  }
+}
+
+/**
+ * Types a reply into the chat app's input box and clicks send. A streamed
+ * reply is typed while it is still being generated, keystroke timing comes
+ * from the humanizer. The chat window has to be in front before typing and
+ * before clicking send. Throws if that check, any pixel operation or the
+ * stream fails so callers can report the failure, half typed text is cleared
+ * so it is never sent later by accident.
+ */
+export async function sendReply(
+  config: AgentConfig,
+  reply: string | AsyncIterable<string>,
+  log: (message: string) => void,
+  typing: TypingSettings = resolveTypingSettings(config)
+) {
+  const executor = resolveActionExecutor(config);
+  const appConfig = await resolveSendTargets(config, log);
+  log(`Sending response to ${config.app} using ${appConfig.source}${executor.live ? "" : ` (${executor.name})`}`);
+
+  await verifyFocus(config, executor, "typing", log);
+  await selectInputText(executor, appConfig.inputBox);
+  await sleep(500);
+
+  // Type response
+  log(`Typing response at ~${typing.wordsPerMinute} wpm`);
+  const humanizer = new TypingHumanizer(typing);
+  let typed = "";
+  let lastKeyAt = Date.now();
+  try {
+    for await (const part of typeof reply === "string" ? [reply] : reply) {
+      for (const key of humanizer.plan(part)) {
+        // the pixel call itself takes time, only wait for what is left of the delay
+        await sleep(Math.max(key.delayMs - (Date.now() - lastKeyAt), 0));
+        if (key.kind === "type") {
+          await executor.type(key.text);
+          typed += key.text;
+        } else {
+          await executor.press("backspace");
+          typed = typed.slice(0, -1);
+        }
+        lastKeyAt = Date.now();
+      }
+    }
+  } catch (err) {
+    if (typed) {
+      log("Reply failed while typing, clearing the input box");
+      await selectInputText(executor, appConfig.inputBox);
+      await executor.press("backspace");
+    }
+    throw err;
+  }
+
+  if (!typed.trim()) {
+    throw new Error("Reply is empty, nothing to send");
+  }
+
+  // Click send button, the typed text stays in the box if something took focus meanwhile
+  await sleep(500);
+  await verifyFocus(config, executor, "clicking send", log);
+  await executor.moveMouse(appConfig.sendButton.x, appConfig.sendButton.y);
+  await sleep(300);
+  await executor.click("left");
+
+  log(executor.live ? "Response sent successfully" : `Response not sent, ${executor.name} backend`);
+}
+
+/**
+ * Returns why a reply that wasn't typed right after reading its chat, like a
+ * queued, scheduled or pipeline reply, can't be sent right now, or null when
+ * it can: its app has to be in front with the reply's chat open. Backends
+ * that don't reach the screen skip the check.
+ */
+export async function getStoredReplyHold(config: AgentConfig, stored: ConversationKey): Promise<string | null> {
+  const target = { ...config, app: stored.app };
+  if (!resolveActionExecutor(target).live) return null;
+
+  const filter = resolveCaptureFilter(target);
+  try {
+    return (await getFocusRejection(filter)) ?? (await getChatRejection(stored.app, filter, stored.chat));
+  } catch (err) {
+    return `chat check failed: ${err instanceof Error ? err.message : "Unknown error"}`;
+  }
+}
+
+/**
+ * Sends a reply that waited in the review queue or the schedule, typed with
+ * the same settings as live replies to its contact.
+ */
+export async function sendStoredReply(
+  config: AgentConfig,
+  stored: Pick<QueuedReply, "app" | "reply" | "contact">,
+  log: (message: string) => void
+) {
+  const policy = stored.contact
+    ? findContactPolicy(await loadContactPolicies(), { chatTitle: stored.contact, sender: null })
+    : null;
+  await sendReply({ ...config, app: stored.app }, stored.reply, log, resolveTypingSettings(config, policy));
+}
@@ -0,0 +1,23 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Agent state lives next to the pipe so it survives restarts of the Next.js server
+const DATA_DIR = path.join(process.cwd(), "data");
+
+export function dataPath(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(dataPath(name), "utf8");
+    return JSON.parse(content) as T;
+  } catch (err) {
+    return fallback;
+  }
+}
+
+export async function writeJson<T>(name: string, value: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.writeFile(dataPath(name), JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,361 @@
+export type ChatApp = "whatsapp" | "discord";
+
+// "preset" uses one of the AI presets configured in the Screenpipe settings
+export type AiProvider = "ollama" | "nebius" | "preset";
+
+// Whether scheduled pipeline runs send replies or only queue them
+export type PipelineMode = "send" | "queue";
+
+// "review" puts every generated reply in the review queue instead of sending it
+export type ReplyMode = "auto" | "review";
+
+// What happens to a draft nobody reviewed in time
+export interface ReviewPolicy {
+  timeoutMinutes: number;
+  onTimeout: "send" | "discard";
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type LayoutTarget = "inputBox" | "sendButton";
+
+// Calibrated click targets for one app on one monitor
+export interface LayoutProfile {
+  id: string;
+  name: string;
+  app: ChatApp;
+  // screen resolution the profile was captured on, e.g. "1920x1080"
+  monitor: string;
+  inputBox: Point;
+  sendButton: Point;
+  updatedAt: string;
+}
+
+// Restricts OCR frames to the chat application's window
+export interface CaptureFilter {
+  appName: string;
+  // case-insensitive regular expression matched against the window title
+  windowNamePattern?: string;
+  // frames older than this are stale for live monitoring
+  maxFrameAgeSeconds: number;
+}
+
+// Retrieval of past messages and notes for reply prompts
+export interface MemorySettings {
+  enabled: boolean;
+  // Ollama model used for embeddings, e.g. "nomic-embed-text"
+  embeddingModel: string;
+  // snippets injected into each prompt
+  topK: number;
+}
+
+// How replies are typed into the chat app
+export interface TypingSettings {
+  // average speed, a word is five characters
+  wordsPerMinute: number;
+  // random spread of each keystroke delay, 0.3 means +-30%
+  jitter: number;
+  // extra pause after , ; and :, doubled after the end of a sentence
+  punctuationPauseMs: number;
+  // chance that a letter is mistyped and then corrected with backspace
+  typoRate: number;
+  // a fixed seed makes the timing and typos reproducible, random per reply when unset
+  seed?: number;
+}
+
+// "HH:MM" local times, a window may wrap past midnight
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// When automatic replies go out
+export interface PacingSettings {
+  enabled: boolean;
+  // wait before every reply, as if reading the message first
+  readDelaySeconds: number;
+  // added per character of the messages being answered
+  readMsPerChar: number;
+  maxReadDelaySeconds: number;
+  // replies only go out inside this window, null for any time of day
+  activeHours: TimeWindow | null;
+  // do-not-disturb windows, replies wait until they end
+  quietPeriods: TimeWindow[];
+}
+
+// Realtime transcription of the speakers and microphone, off unless Screenpipe transcribes live
+export interface AudioSettings {
+  enabled: boolean;
+  // speaker audio while the chat is in front showing a voice note, and no call is going on, becomes an incoming message
+  voiceNotes: boolean;
+  pauseOnCalls: boolean;
+  // speech on both microphone and speakers within this window counts as a call
+  callWindowSeconds: number;
+}
+
+// Sends wait until the mouse and keyboard have been left alone this long
+export interface PresenceSettings {
+  enabled: boolean;
+  idleSeconds: number;
+}
+
+// Contacts often send several short messages in a row, they get one reply
+export interface BurstSettings {
+  // reply once the chat was quiet this long after the last message
+  quietSeconds: number;
+  // reply anyway when a burst keeps going this long
+  maxWaitSeconds: number;
+}
+
+// How reply generation copes with failing providers
+export interface FailoverPolicy {
+  // tried in order after the selected provider, each with its own model settings
+  fallbacks: AiProvider[];
+  // extra attempts per provider
+  maxRetries: number;
+  // per attempt, for streamed replies the wait for each chunk
+  timeoutSeconds: number;
+  // wait before the first retry, doubled for every further retry
+  backoffSeconds: number;
+}
+
+// Configuration the client hands to the agent when monitoring starts
+export interface AgentConfig {
+  app: ChatApp;
+  aiProvider: AiProvider;
+  ollamaModel: string;
+  nebiusModel: string;
+  nebiusApiKey: string;
+  // preset id when aiProvider is "preset", the default preset when unset
+  aiPresetId?: string;
+  pipelineMode?: PipelineMode;
+  // Display name the agent replies as, used to recognise our own Discord messages
+  selfName?: string;
+  // overrides for the app's default capture filter
+  captureFilter?: Partial<CaptureFilter>;
+  replyMode?: ReplyMode;
+  reviewPolicy?: ReviewPolicy;
+  memory?: MemorySettings;
+  failover?: FailoverPolicy;
+  typing?: TypingSettings;
+  pacing?: PacingSettings;
+  burst?: BurstSettings;
+  // what performs mouse and keyboard actions, "recording" is the dry run
+  actionBackend?: ActionBackend;
+  // where the monitor loop gets frames, defaults to the live stream
+  frameSource?: FrameSource;
+  audio?: AudioSettings;
+  presence?: PresenceSettings;
+}
+
+// Chat Message interface
+export interface ChatMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+  timestamp: number;
+}
+
+export type MessageDirection = "incoming" | "outgoing";
+
+// A single chat bubble recovered from OCR text by the conversation parser
+export interface ParsedMessage {
+  sender: string | null;
+  text: string;
+  time: string | null;
+  direction: MessageDirection;
+}
+
+export interface OCRContext {
+  text: string;
+  confidence?: number;
+  source?: string;
+}
+
+export interface AgentLogEntry {
+  time: string;
+  message: string;
+}
+
+// Snapshot returned by the status route
+// pixel: Screenpipe input control, robotjs: local native input, recording: dry run into the action log, fake: nothing
+export type ActionBackend = "pixel" | "robotjs" | "recording" | "fake";
+
+export type FrameSource = "stream" | "poll";
+
+export type UiActionKind = "open" | "move" | "click" | "type" | "press";
+
+// A UI action that the recording backend logged instead of executing
+export interface RecordedAction {
+  kind: UiActionKind;
+  // application name, coordinates, mouse button, typed text or key
+  detail: string;
+  time: string;
+}
+
+// Lifecycle of the monitoring loop, see monitor-state.ts for the allowed moves
+// "waiting" holds a send until the user stops using mouse and keyboard
+export type MonitorState = "idle" | "starting" | "polling" | "generating" | "waiting" | "sending" | "paused" | "error";
+
+export interface MonitorTransition {
+  from: MonitorState;
+  to: MonitorState;
+  reason?: string;
+  at: string;
+}
+
+export interface AgentStatus {
+  // true from start until stop or an error, also while paused
+  isMonitoring: boolean;
+  state: MonitorState;
+  // latest transitions, oldest first
+  stateHistory: MonitorTransition[];
+  config: AgentConfig | null;
+  lastMessage: string;
+  lastOcrText: string;
+  logs: AgentLogEntry[];
+  chatHistory: ChatMessage[];
+  actionLog: RecordedAction[];
+}
+
+// ignore: never reply, draft: always go through the review queue, auto: follow the reply mode
+export type ContactMode = "ignore" | "draft" | "auto";
+
+// Reply rules for one chat or sender, matched against names read from OCR
+export interface ContactPolicy {
+  id: string;
+  // chat title or sender name, compared case-insensitively
+  contact: string;
+  mode: ContactMode;
+  // replaces the default system prompt when replying to this contact
+  persona?: string;
+  // replies per day, 0 for no limit
+  dailyReplyCap: number;
+  // overrides the global typing settings, e.g. a slower typist for family chats
+  typing?: Partial<TypingSettings>;
+  updatedAt: string;
+}
+
+// Who a detected message came from, as far as OCR can tell
+export interface MessageContact {
+  chatTitle: string | null;
+  sender: string | null;
+}
+
+// Identifies a conversation in the store, chat is the title read from OCR
+export interface ConversationKey {
+  app: ChatApp;
+  chat: string | null;
+}
+
+export interface ConversationSummary {
+  id: number;
+  app: ChatApp;
+  title: string;
+  participants: string[];
+  messageCount: number;
+  updatedAt: string;
+}
+
+export type MemorySource = "message" | "note";
+
+// A piece of memory retrieved for a prompt
+export interface MemorySnippet {
+  source: MemorySource;
+  // chat title for messages, note title for notes
+  label: string;
+  text: string;
+  // cosine similarity to the incoming message
+  score: number;
+}
+
+export interface MemoryNote {
+  id: number;
+  title: string;
+  text: string;
+  createdAt: string;
+}
+
+// A generated reply with the memory that went into its prompt
+export interface ReplyRecord {
+  id: number;
+  app: ChatApp;
+  chat: string;
+  message: string | null;
+  reply: string;
+  model: string;
+  status: DraftStatus;
+  createdAt: string;
+  snippets: MemorySnippet[];
+}
+
+export type DraftStatus = "pending" | "sent" | "rejected" | "expired" | "failed";
+
+// "merged" replies were replaced by one that also answers newer messages
+export type ScheduledReplyStatus = "scheduled" | "sent" | "cancelled" | "merged" | "failed";
+
+// Generated reply waiting for its send time
+export interface ScheduledReply {
+  id: string;
+  app: ChatApp;
+  chat: string | null;
+  contact?: string;
+  // incoming messages the reply answers, oldest first
+  messages: { id: number; text: string }[];
+  reply: string;
+  model: string;
+  sendAt: string;
+  // why sendAt is later than the read delay alone
+  holdReason?: string;
+  status: ScheduledReplyStatus;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+}
+
+// Reply waiting in the review queue for a human to approve, edit or reject
+export interface QueuedReply {
+  id: string;
+  app: ChatApp;
+  // the incoming message that triggered the draft
+  message: string;
+  // chat title or sender the message came from, when known
+  contact?: string;
+  // chat the draft answers, it is only sent while that chat is open
+  chat?: string | null;
+  reply: string;
+  model: string;
+  status: DraftStatus;
+  createdAt: string;
+  updatedAt: string;
+  // when the timeout policy kicks in, null to wait forever
+  expiresAt: string | null;
+  // set for draft-only contacts, the timeout policy never sends these
+  requireApproval?: boolean;
+  error?: string;
+}
+
+export interface PipelineReplyReport {
+  message: string;
+  contact?: string;
+  reply?: string;
+  status: "sent" | "queued" | "scheduled" | "skipped" | "failed";
+  error?: string;
+}
+
+// Structured result of a single /api/pipeline run
+export interface PipelineReport {
+  success: boolean;
+  app: ChatApp | null;
+  mode: PipelineMode;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  framesScanned: number;
+  messagesDetected: number;
+  replies: PipelineReplyReport[];
+  logs: string[];
+  error?: string;
+}
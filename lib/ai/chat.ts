@@ -0,0 +1,157 @@
+import type { ChatMessage, MemorySnippet, OCRContext } from "../agent/types";
+import type { LLMProvider, PromptMessage } from "./provider";
+
+// Timestamps do not matter for prompts, hooks pass history without them
+export type HistoryMessage = Pick<ChatMessage, "role" | "content">;
+
+export const DEFAULT_PERSONA = "You are a friendly, helpful assistant engaged in a chat conversation. Keep your responses conversational, concise, and directly relevant to the question.";
+
+export interface ChatPromptOptions {
+  ocrContext?: OCRContext;
+  // replaces the default system instructions, e.g. a contact policy's "reply formally, in German"
+  persona?: string;
+  // retrieved from memory, shown to the model as background knowledge
+  snippets?: MemorySnippet[];
+  // AI presets cap how much context they accept, the newest OCR text is kept
+  maxContextChars?: number;
+  signal?: AbortSignal;
+}
+
+function formatSnippets(snippets: MemorySnippet[]): string {
+  return snippets
+    .map((snippet) => `- (${snippet.source === "note" ? "note" : "earlier message"}, ${snippet.label}) ${snippet.text}`)
+    .join("\n");
+}
+
+function limitContext(text: string, maxChars?: number): string {
+  return maxChars && text.length > maxChars ? text.slice(-maxChars) : text;
+}
+
+export function buildChatPrompt(
+  userMessage: string,
+  chatHistory: HistoryMessage[],
+  { ocrContext, persona = DEFAULT_PERSONA, snippets = [], maxContextChars }: ChatPromptOptions = {}
+): PromptMessage[] {
+  let systemPrompt = persona;
+
+  if (ocrContext) {
+    systemPrompt += ` You can see the following content in the chat window: "${limitContext(ocrContext.text, maxContextChars)}" - use this information to provide context-aware responses.`;
+  }
+
+  if (snippets.length > 0) {
+    systemPrompt += `\n\nThings you remember that may be relevant, use them only if they help:\n${formatSnippets(snippets)}`;
+  }
+
+  return [
+    { role: "system", content: systemPrompt },
+    ...chatHistory.map((msg) => ({ role: msg.role, content: msg.content })),
+    { role: "user", content: userMessage },
+  ];
+}
+
+export async function generateChatResponse(
+  provider: LLMProvider,
+  userMessage: string,
+  chatHistory: HistoryMessage[] = [],
+  options: ChatPromptOptions = {}
+): Promise<string> {
+  return provider.complete(
+    buildChatPrompt(userMessage, chatHistory, { maxContextChars: provider.maxContextChars, ...options }),
+    { signal: options.signal }
+  );
+}
+
+/**
+ * Streaming variant of generateChatResponse. Leading whitespace is dropped
+ * so nothing is typed before the first word.
+ */
+export async function* streamChatResponse(
+  provider: LLMProvider,
+  userMessage: string,
+  chatHistory: HistoryMessage[] = [],
+  options: ChatPromptOptions = {}
+): AsyncGenerator<string> {
+  const prompt = buildChatPrompt(userMessage, chatHistory, { maxContextChars: provider.maxContextChars, ...options });
+  let started = false;
+  for await (let chunk of provider.stream(prompt, { signal: options.signal })) {
+    if (!started) {
+      chunk = chunk.trimStart();
+      if (!chunk) continue;
+      started = true;
+    }
+    yield chunk;
+  }
+}
+
+export interface StreamTap {
+  chunks: AsyncGenerator<string>;
+  // text that passed through so far, the whole reply once chunks is drained
+  text: () => string;
+}
+
+/**
+ * Passes a stream through while keeping the text, for callers that hand the
+ * chunks to the typing stage and still need the full reply afterwards.
+ */
+export function tapStream(stream: AsyncIterable<string>): StreamTap {
+  let text = "";
+  const chunks = (async function* () {
+    for await (const chunk of stream) {
+      text += chunk;
+      yield chunk;
+    }
+  })();
+  return { chunks, text: () => text };
+}
+
+export async function analyzeOCRText(provider: LLMProvider, ocrText: string): Promise<string> {
+  const prompt = `I'm looking at a chat window that contains the following text detected by OCR:
+
+${ocrText}
+
+Analyze this content and extract:
+1. Who are the participants in this conversation
+2. What is the main topic being discussed
+3. Any questions that need answers
+4. Any specific information I should use in my reply`;
+
+  return provider.complete([{ role: "user", content: prompt }]);
+}
+
+// Models do not always return clean JSON, fall back to whatever looks like a list
+function parseSuggestions(suggestions: string): string[] {
+  try {
+    return JSON.parse(suggestions);
+  } catch {
+    const match = suggestions.match(/\[(.*)\]/s);
+    if (match) {
+      try {
+        return JSON.parse(`[${match[1]}]`);
+      } catch {
+        return suggestions.split("\n").filter((line) => line.trim().startsWith('"') || line.trim().startsWith("'"));
+      }
+    }
+    return [suggestions];
+  }
+}
+
+export async function suggestReplies(
+  provider: LLMProvider,
+  chatHistory: HistoryMessage[] = [],
+  ocrContext?: OCRContext
+): Promise<string[]> {
+  let prompt = "Based on this chat conversation, suggest 3-5 natural, conversational replies I could send next. Make them sound human and contextually appropriate. Format as a JSON array of strings.";
+
+  if (ocrContext) {
+    prompt += `\n\nChat window content: ${ocrContext.text}\n\n`;
+  }
+
+  prompt += "\nConversation so far:\n";
+  chatHistory.forEach((msg) => {
+    prompt += `${msg.role === "user" ? "Me" : "Other"}: ${msg.content}\n`;
+  });
+
+  prompt += "\nSuggested replies I could send:";
+
+  return parseSuggestions(await provider.complete([{ role: "user", content: prompt }]));
+}
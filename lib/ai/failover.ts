@@ -0,0 +1,157 @@
+import type { CompletionOptions, LLMProvider, PromptMessage } from "./provider";
+
+export interface RetryPolicy {
+  // extra attempts per provider after the first one fails
+  maxRetries: number;
+  // per attempt, for streams the wait for each chunk
+  timeoutMs: number;
+  // wait before the first retry, doubled for every further retry
+  backoffMs: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const describe = (provider: LLMProvider) => `${provider.name} (${provider.model})`;
+
+// Aborts when there was no progress for `ms`, restarted on every sign of progress
+class Deadline {
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private ms: number) {
+    this.reset();
+  }
+
+  get signal() {
+    return this.controller.signal;
+  }
+
+  get expired() {
+    return this.controller.signal.aborted;
+  }
+
+  reset() {
+    this.clear();
+    this.timer = setTimeout(() => this.controller.abort(new Error(`timed out after ${this.ms}ms`)), this.ms);
+  }
+
+  clear() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Tries a chain of providers in order, retrying each with backoff before
+ * moving on. Every attempt is logged with its latency. When all of them fail
+ * the last error is thrown, callers must not fall back to canned text.
+ */
+export class FailoverProvider implements LLMProvider {
+  // the provider that produced the last reply
+  private current: LLMProvider;
+
+  constructor(
+    private providers: LLMProvider[],
+    private policy: RetryPolicy,
+    private log: (message: string) => void
+  ) {
+    if (providers.length === 0) {
+      throw new Error("No AI provider available");
+    }
+    this.current = providers[0];
+  }
+
+  get name() {
+    return this.current.name;
+  }
+
+  get model() {
+    return this.current.model;
+  }
+
+  // The prompt is built once for the whole chain, so the tightest limit wins
+  get maxContextChars() {
+    const limits = this.providers.flatMap((provider) => (provider.maxContextChars ? [provider.maxContextChars] : []));
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  async complete(messages: PromptMessage[], options: CompletionOptions = {}): Promise<string> {
+    return this.attempt("answered", options.signal, async (provider, signal, deadline) => {
+      const reply = await provider.complete(messages, { ...options, signal });
+      deadline.clear();
+      return reply;
+    });
+  }
+
+  /**
+   * Fails over only until the first chunk arrives, text that was already
+   * handed to the typing stage cannot be taken back.
+   */
+  async *stream(messages: PromptMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    const { iterator, first, deadline } = await this.attempt(
+      "started streaming",
+      options.signal,
+      async (provider, signal, deadline) => {
+        const iterator = provider.stream(messages, { ...options, signal });
+        return { iterator, first: await iterator.next(), deadline };
+      }
+    );
+
+    try {
+      let next = first;
+      while (!next.done) {
+        // time spent by the consumer does not count against the provider
+        deadline.clear();
+        yield next.value;
+        deadline.reset();
+        next = await iterator.next();
+      }
+    } catch (err) {
+      if (deadline.expired) {
+        throw new Error(`${describe(this.current)} stalled for more than ${this.policy.timeoutMs}ms`);
+      }
+      throw err;
+    } finally {
+      deadline.clear();
+      await iterator.return(undefined);
+    }
+  }
+
+  private async attempt<T>(
+    action: string,
+    outer: AbortSignal | undefined,
+    run: (provider: LLMProvider, signal: AbortSignal, deadline: Deadline) => Promise<T>
+  ): Promise<T> {
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      for (let attempt = 1; attempt <= this.policy.maxRetries + 1; attempt++) {
+        if (attempt > 1) {
+          await sleep(this.policy.backoffMs * 2 ** (attempt - 2));
+        }
+        if (outer?.aborted) throw outer.reason;
+
+        const startedAt = Date.now();
+        const deadline = new Deadline(this.policy.timeoutMs);
+        const signal = outer ? AbortSignal.any([outer, deadline.signal]) : deadline.signal;
+        try {
+          const result = await run(provider, signal, deadline);
+          this.log(`${describe(provider)} ${action} in ${Date.now() - startedAt}ms (attempt ${attempt})`);
+          this.current = provider;
+          return result;
+        } catch (err) {
+          deadline.clear();
+          // Cancelled by the caller, not a provider failure
+          if (outer?.aborted) throw err;
+
+          lastError = deadline.expired ? new Error(`timed out after ${this.policy.timeoutMs}ms`) : err;
+          const message = lastError instanceof Error ? lastError.message : "Unknown error";
+          this.log(`${describe(provider)} attempt ${attempt} failed after ${Date.now() - startedAt}ms: ${message}`);
+        }
+      }
+    }
+
+    const message = lastError instanceof Error ? lastError.message : "Unknown error";
+    throw new Error(`All AI providers failed, last error: ${message}`);
+  }
+}
@@ -0,0 +1,57 @@
+import type { AIPreset, Settings as ScreenpipeAppSettings } from "@screenpipe/js";
+import { OpenAICompatibleProvider, type LLMProvider } from "./provider";
+
+export type ResolvedAiPreset = AIPreset & { apiKey: string };
+
+/**
+ * Finds a Screenpipe AI preset by id, falling back to the default preset,
+ * and resolves the API key it should be called with.
+ */
+export function resolveAiPreset(
+  settings: Partial<ScreenpipeAppSettings> | null | undefined,
+  presetId?: string
+): ResolvedAiPreset | undefined {
+  let preset: AIPreset | undefined;
+
+  if (presetId) {
+    preset = settings?.aiPresets?.find((preset) => preset.id === presetId);
+  }
+
+  if (!preset) {
+    preset = settings?.aiPresets?.find((preset) => preset.defaultPreset);
+  }
+
+  if (!preset) {
+    return undefined;
+  }
+
+  // Handle different provider types that may have apiKey
+  const apiKey =
+    "provider" in preset && preset.provider === "screenpipe-cloud"
+      ? settings?.user?.token || ""
+      : "provider" in preset && "apiKey" in preset
+        ? (preset.apiKey as string) || ""
+        : "";
+
+  return {
+    id: preset.id,
+    maxContextChars: preset.maxContextChars,
+    url: preset.url,
+    model: preset.model,
+    defaultPreset: preset.defaultPreset,
+    prompt: preset.prompt,
+    provider: preset.provider,
+    apiKey,
+  } as ResolvedAiPreset;
+}
+
+// Every preset type, native-ollama included, exposes an OpenAI compatible url
+export function createPresetProvider(preset: ResolvedAiPreset): LLMProvider {
+  return new OpenAICompatibleProvider({
+    name: `preset ${preset.id}`,
+    model: preset.model,
+    baseUrl: preset.url,
+    apiKey: preset.apiKey || undefined,
+    maxContextChars: preset.maxContextChars,
+  });
+}
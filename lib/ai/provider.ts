@@ -0,0 +1,170 @@
+export interface PromptMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // aborting cancels the request, a stream stops with an AbortError
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat model behind some backend. Prompts are always built as chat
+ * messages, adapters translate them to whatever the backend expects.
+ */
+export interface LLMProvider {
+  // shown in logs and the UI, e.g. "Ollama" or an AI preset id
+  readonly name: string;
+  readonly model: string;
+  // prompt context limit configured on the backend, if any
+  readonly maxContextChars?: number;
+  complete(messages: PromptMessage[], options?: CompletionOptions): Promise<string>;
+  // yields text as the model produces it
+  stream(messages: PromptMessage[], options?: CompletionOptions): AsyncGenerator<string>;
+}
+
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1000;
+
+async function post(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error?.message || error.error || `Request to ${url} failed (Status: ${response.status})`);
+  }
+
+  return response;
+}
+
+// Ollama streams newline delimited JSON, OpenAI style APIs stream SSE, both are line based
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new Error("Response has no body to stream");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    // Also runs when the consumer stops iterating, which closes the connection
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = "Ollama";
+
+  constructor(
+    readonly model: string,
+    private baseUrl = "http://localhost:11434/api"
+  ) {}
+
+  async complete(messages: PromptMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await post(`${this.baseUrl}/chat`, this.body(messages, options, false), {}, options.signal);
+    const data = await response.json();
+    return data.message.content.trim();
+  }
+
+  async *stream(messages: PromptMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    const response = await post(`${this.baseUrl}/chat`, this.body(messages, options, true), {}, options.signal);
+    for await (const line of readLines(response)) {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error(data.error);
+      if (data.message?.content) yield data.message.content;
+      if (data.done) return;
+    }
+  }
+
+  private body(messages: PromptMessage[], options: CompletionOptions, stream: boolean) {
+    return {
+      model: this.model,
+      messages,
+      stream,
+      options: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        num_predict: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    };
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  model: string;
+  // e.g. "https://api.openai.com/v1", the chat completions path is appended
+  baseUrl: string;
+  apiKey?: string;
+  // override for proxies that do not follow the /chat/completions layout
+  completionsPath?: string;
+  maxContextChars?: number;
+}
+
+/**
+ * Covers Nebius, OpenAI, Screenpipe cloud and custom AI presets, which all
+ * speak the OpenAI chat completions format.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly maxContextChars?: number;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.maxContextChars = options.maxContextChars;
+  }
+
+  async complete(messages: PromptMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    return data.choices[0].message.content.trim();
+  }
+
+  async *stream(messages: PromptMessage[], options: CompletionOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(messages, options, true);
+    for await (const line of readLines(response)) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice("data:".length).trim();
+      if (payload === "[DONE]") return;
+      const data = JSON.parse(payload);
+      if (data.error) throw new Error(data.error.message || data.error);
+      const content = data.choices?.[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+
+  private request(messages: PromptMessage[], options: CompletionOptions, stream: boolean) {
+    const { baseUrl, apiKey, completionsPath = "/chat/completions" } = this.options;
+    return post(
+      `${baseUrl.replace(/\/$/, "")}${completionsPath}`,
+      {
+        model: this.model,
+        messages,
+        stream,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      options.signal
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { fetchJson } from "./fetch-json";
+import type { ChatMessage, ConversationKey } from "./agent/types";
+
+/**
+ * Loads the prompt history window for a chat from the server-side
+ * conversation store.
+ */
+export async function fetchConversationHistory(key: ConversationKey, limit?: number): Promise<ChatMessage[]> {
+  const params = new URLSearchParams({ app: key.app, chat: key.chat ?? "" });
+  if (limit) params.set("limit", String(limit));
+  const data = await fetchJson<{ messages: ChatMessage[] }>(`/api/agent/conversations?${params}`);
+  return data.messages;
+}
@@ -0,0 +1,17 @@
+/**
+ * fetch wrapper for the app's own JSON API routes, throws with the route's
+ * error message when the response is not ok.
+ */
+export async function fetchJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Request failed (Status: ${response.status})`);
+  }
+
+  return response.json();
+}
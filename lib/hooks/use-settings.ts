@@ -4,6 +4,7 @@ import {
 	getScreenpipeAppSettings,
 	updateScreenpipeAppSettings,
 } from "@/lib/actions/get-screenpipe-app-settings";
+import { resolveAiPreset, type ResolvedAiPreset } from "@/lib/ai/presets";
 
 export interface PipeSettings {
 	exampleSetting: string;
@@ -11,8 +12,6 @@ export interface PipeSettings {
 	aiPresetId: string;
 }
 
-type AIPreset = ScreenpipeAppSettings["aiPresets"][number];
-
 export const DEFAULT_SETTINGS: Partial<PipeSettings> = {
 	exampleSetting: "default value",
 };
@@ -148,47 +147,10 @@ class SettingsStore {
 	getPreset(
 		pipeName: string,
 		key: keyof PipeSettings = "aiPresetId",
-	): (AIPreset & { apiKey: string }) | undefined {
+	): ResolvedAiPreset | undefined {
 		try {
 			const presetId = this.store.pipeSettings[pipeName]?.[key];
-			const screenpipeSettings = this.store.globalSettings;
-
-			let preset: AIPreset | undefined;
-
-			if (presetId) {
-				preset = screenpipeSettings?.aiPresets?.find(
-					(preset) => preset.id === presetId,
-				);
-			}
-
-			if (!preset) {
-				preset = screenpipeSettings?.aiPresets?.find(
-					(preset) => preset.defaultPreset,
-				);
-			}
-
-			if (!preset) {
-				return undefined;
-			}
-
-			// Handle different provider types that may have apiKey
-			const apiKey =
-				"provider" in preset && preset.provider === "screenpipe-cloud"
-					? screenpipeSettings?.user?.token || ""
-					: "provider" in preset && "apiKey" in preset
-						? (preset.apiKey as string) || ""
-						: "";
-
-			return {
-				id: preset.id,
-				maxContextChars: preset.maxContextChars,
-				url: preset.url,
-				model: preset.model,
-				defaultPreset: preset.defaultPreset,
-				prompt: preset.prompt,
-				provider: preset.provider,
-				apiKey,
-			};
+			return resolveAiPreset(this.store.globalSettings, presetId);
 		} catch (error) {
 			console.error("failed to get preset:", error);
 			return undefined;
@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // Native addons used by the agent must be required at runtime, not bundled
+  serverExternalPackages: ['robotjs', 'ws'],
   webpack: (config) => {
     // Add support for raw-loader to import file content as strings
     config.module.rules.push({